@@ -1,6 +1,7 @@
 
 import { Book } from "@/lib/nostr";
 import { cn } from "@/lib/utils";
+import { formatIdentifier, getBookIdentifier } from "@/lib/bookIdentifiers";
 import { useEffect, useState } from "react";
 import { ImageWithFallback } from "./ui/image-with-fallback";
 
@@ -35,6 +36,8 @@ export function BookCard({ book, className, onClick, selected }: BookCardProps)
     // Cleanup interval
     return () => clearInterval(intervalId);
   }, [book, currentBook]);
+
+  const identifier = getBookIdentifier(currentBook);
   
   return (
     <div 
@@ -76,9 +79,13 @@ export function BookCard({ book, className, onClick, selected }: BookCardProps)
           <p className="text-sm text-similarteia-muted truncate">
             {currentBook.author}
           </p>
-          <p className="text-xs text-muted-foreground mt-1">
-            <span className="text-green-600">ISBN: {currentBook.isbn}</span>
-          </p>
+          {identifier && (
+            <p className="text-xs text-muted-foreground mt-1">
+              <span className={identifier.type === 'isbn' ? "text-green-600" : undefined}>
+                {formatIdentifier(identifier)}
+              </span>
+            </p>
+          )}
         </div>
       </div>
     </div>
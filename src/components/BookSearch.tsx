@@ -1,7 +1,9 @@
 
 import { useState, useEffect } from "react";
-import { Book } from "@/lib/nostr";
+import { Book, identifierToBook } from "@/lib/nostr";
 import { searchBooks } from "@/lib/openlibrary";
+import { getBooksByIdentifiers } from "@/lib/bookLookup";
+import { getBookIdentifier, getIdentifierKey, parseIdentifierInput } from "@/lib/bookIdentifiers";
 import { Input } from "@/components/ui/input";
 import { BookCard } from "@/components/BookCard";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -39,6 +41,15 @@ export function BookSearch({ onSelectBook, placeholder = "Search for a book..."
     // Set a new timeout
     const timeout = setTimeout(async () => {
       try {
+        // A pasted ISBN, DOI, Wikidata or Open Library id selects that exact book
+        const identifier = parseIdentifierInput(query);
+        if (identifier) {
+          const books = await getBooksByIdentifiers([identifier]);
+          const book = books[getIdentifierKey(identifier)] ?? identifierToBook(identifier);
+          setResults([book]);
+          return;
+        }
+
         const books = await searchBooks(query);
         setResults(books);
       } catch (error) {
@@ -89,7 +100,7 @@ export function BookSearch({ onSelectBook, placeholder = "Search for a book..."
                 ? "Type at least 3 characters to search"
                 : <div>
                     <p className="mb-2">No books found</p>
-                    <p className="text-xs">Try adjusting your search terms.<br/>Only books with ISBNs are shown in results.</p>
+                    <p className="text-xs">Try adjusting your search terms.<br/>You can also paste an ISBN, DOI, Wikidata or Open Library id.</p>
                   </div>
               }
             </div>
@@ -97,7 +108,7 @@ export function BookSearch({ onSelectBook, placeholder = "Search for a book..."
             <div className="p-2">
               {results.map((book) => (
                 <BookCard
-                  key={book.isbn}
+                  key={getIdentifierKey(getBookIdentifier(book))}
                   book={book}
                   onClick={() => {
                     onSelectBook(book);
@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronUp, LogIn, MessageSquare, Reply } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useNostrClient } from "@/contexts/NostrContext";
+import { NostrEvent, SimilarityEvent } from "@/lib/nostr";
+import { CommentNode, MAX_COMMENT_LENGTH, buildCommentTree, useComments, usePostComment } from "@/lib/comments";
+import { UserAvatar, UserName } from "./UserAvatar";
+import { LoginModal } from "./LoginModal";
+
+// Deeper replies are not indented any further
+const MAX_INDENT_DEPTH = 4;
+
+interface CommentThreadProps {
+  event: SimilarityEvent;
+  // Controlled open state; without it the thread keeps its own
+  isOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+function CommentForm({ placeholder, onSubmit, onCancel, autoFocus }: CommentFormProps) {
+  const [content, setContent] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setIsPosting(true);
+    const posted = await onSubmit(content);
+    setIsPosting(false);
+    if (posted) {
+      setContent("");
+      onCancel?.();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+        className="min-h-[60px] text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isPosting}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          size="sm"
+          className="bg-similarteia-accent hover:bg-similarteia-accent/90"
+          disabled={isPosting || !content.trim()}
+        >
+          {isPosting ? "Posting..." : "Post"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  node: CommentNode;
+  depth: number;
+  canReply: boolean;
+  onReply: (content: string, parent: NostrEvent) => Promise<boolean>;
+}
+
+function CommentItem({ node, depth, canReply, onReply }: CommentItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const { event } = node;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <UserAvatar pubkey={event.pubkey} size="sm" className="shrink-0" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-baseline gap-2 text-xs">
+            <UserName pubkey={event.pubkey} className="font-medium" />
+            <span className="text-muted-foreground">
+              {new Date(event.created_at * 1000).toLocaleDateString("en-US", {
+                year: "numeric",
+                month: "short",
+                day: "numeric",
+              })}
+            </span>
+          </div>
+          <p className="text-sm whitespace-pre-wrap break-words">{event.content}</p>
+          {canReply && !isReplying && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-1 gap-1 text-xs text-muted-foreground"
+              onClick={() => setIsReplying(true)}
+            >
+              <Reply className="h-3 w-3" />
+              Reply
+            </Button>
+          )}
+          {isReplying && (
+            <div className="mt-2">
+              <CommentForm
+                placeholder="Write a reply..."
+                autoFocus
+                onSubmit={(content) => onReply(content, event)}
+                onCancel={() => setIsReplying(false)}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {node.replies.length > 0 && (
+        <div className={depth < MAX_INDENT_DEPTH ? "ml-4 pl-3 border-l space-y-3" : "space-y-3"}>
+          {node.replies.map(reply => (
+            <CommentItem
+              key={reply.event.id}
+              node={reply}
+              depth={depth + 1}
+              canReply={canReply}
+              onReply={onReply}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * NIP-22 comment thread under a similarity, collapsed until opened
+ * Read-only sessions can read the thread but are asked to log in with a signer to reply.
+ */
+export function CommentThread({ event, isOpen: controlledOpen, onOpenChange }: CommentThreadProps) {
+  const { isAuthenticated, canSign } = useAuth();
+  const client = useNostrClient();
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const isOpen = controlledOpen ?? uncontrolledOpen;
+  const setIsOpen = onOpenChange ?? setUncontrolledOpen;
+  const [showLoginModal, setShowLoginModal] = useState(false);
+
+  const { data: comments = [], isLoading } = useComments(event, isOpen, client);
+  const postComment = usePostComment(event, client);
+  const thread = useMemo(() => buildCommentTree(comments, event.id), [comments, event.id]);
+
+  return (
+    <div className="space-y-3">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 gap-1 text-xs"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <MessageSquare className="h-3.5 w-3.5" />
+        {isOpen && !isLoading ? `Comments (${comments.length})` : "Comments"}
+        {isOpen ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+      </Button>
+
+      {isOpen && (
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-4 w-1/2" />
+            </div>
+          ) : thread.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No comments yet.</p>
+          ) : (
+            thread.map(node => (
+              <CommentItem
+                key={node.event.id}
+                node={node}
+                depth={0}
+                canReply={canSign}
+                onReply={postComment}
+              />
+            ))
+          )}
+
+          {canSign ? (
+            <CommentForm
+              placeholder="Add a comment..."
+              onSubmit={(content) => postComment(content, null)}
+            />
+          ) : (
+            <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/50 p-3 text-sm">
+              <span className="text-muted-foreground">
+                {isAuthenticated
+                  ? "You're logged in read-only. Log in with an extension or private key to comment."
+                  : "Log in with an extension or private key to comment."}
+              </span>
+              <Button variant="outline" size="sm" className="gap-1 shrink-0" onClick={() => setShowLoginModal(true)}>
+                <LogIn className="h-3.5 w-3.5" />
+                Log in
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <LoginModal isOpen={showLoginModal} onClose={() => setShowLoginModal(false)} />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { UserProfileMenu } from "@/components/UserProfileMenu";
 import { LoginModal } from "@/components/LoginModal";
+import { OutboxIndicator } from "@/components/OutboxIndicator";
 
 interface LayoutProps {
   children: ReactNode;
@@ -57,6 +58,8 @@ export function Layout({ children, showLoginModal: propShowLoginModal, setShowLo
               </Link>
             )}
             
+            <OutboxIndicator />
+            
             {isLoading ? (
               <Button disabled variant="outline">
                 Loading...
@@ -0,0 +1,134 @@
+import { CheckCircle2, Clock, RotateCw, Send, Trash2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNostrClient } from "@/contexts/NostrContext";
+import { useOutbox } from "@/hooks/useOutbox";
+import { getOutboxItemStatus, validateSimilarityEvent, type OutboxItem, type OutboxItemStatus, type OutboxRelayStatus } from "@/lib/nostr";
+import { cn } from "@/lib/utils";
+
+const itemStatusInfo: Record<OutboxItemStatus, { label: string; className: string }> = {
+  pending: { label: "Sending", className: "text-yellow-600" },
+  sent: { label: "Sent", className: "text-green-600" },
+  failed: { label: "Failed", className: "text-red-600" },
+};
+
+const relayStatusInfo: Record<OutboxRelayStatus, { className: string; icon: typeof CheckCircle2 }> = {
+  pending: { className: "text-yellow-600", icon: Clock },
+  accepted: { className: "text-green-600", icon: CheckCircle2 },
+  rejected: { className: "text-red-600", icon: XCircle },
+  failed: { className: "text-red-600", icon: XCircle },
+};
+
+// A short description of what the queued event is
+const describeItem = (item: OutboxItem): string => {
+  const { fields } = validateSimilarityEvent(item.event);
+  if (fields) {
+    return `${fields.item1.value} ↔ ${fields.item2.value}`;
+  }
+  return `Event of kind ${item.event.kind}`;
+};
+
+function OutboxEntry({ item }: { item: OutboxItem }) {
+  const { outbox } = useNostrClient();
+  const status = getOutboxItemStatus(item);
+  const statusInfo = itemStatusInfo[status];
+  const canRetry = Object.values(item.relays).some(state => state.status === 'pending' || state.status === 'failed');
+
+  return (
+    <li className="py-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{describeItem(item)}</p>
+          <p className="text-xs text-similarteia-muted truncate">{item.event.content}</p>
+        </div>
+        <span className={cn("text-xs font-medium shrink-0", statusInfo.className)}>{statusInfo.label}</span>
+      </div>
+
+      <ul className="space-y-1">
+        {Object.entries(item.relays).map(([url, state]) => {
+          const info = relayStatusInfo[state.status];
+          const Icon = info.icon;
+          return (
+            <li key={url} className="flex items-start gap-2 text-xs">
+              <Icon className={cn("h-3 w-3 mt-0.5 shrink-0", info.className)} />
+              <span className="font-mono truncate">{url.replace(/^wss?:\/\//, '')}</span>
+              {state.message && <span className="text-muted-foreground break-words">{state.message}</span>}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-between items-center">
+        <span className="text-xs text-similarteia-muted">
+          {status === 'pending' && item.nextAttemptAt
+            ? `Next attempt ${new Date(item.nextAttemptAt).toLocaleTimeString()}`
+            : new Date(item.queuedAt).toLocaleString()}
+        </span>
+        <div className="flex gap-1">
+          {canRetry && (
+            <Button variant="ghost" size="sm" onClick={() => outbox.retry(item.id)}>
+              <RotateCw className="h-3 w-3 mr-1" /> Retry
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => outbox.discard(item.id)}>
+            <Trash2 className="h-3 w-3 mr-1" /> Discard
+          </Button>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Header button showing events waiting in the outbox, with retry and discard for each
+ * Hidden while the outbox is empty.
+ */
+export function OutboxIndicator() {
+  const { outbox } = useNostrClient();
+  const items = useOutbox();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const statuses = items.map(getOutboxItemStatus);
+  const pending = statuses.filter(status => status === 'pending').length;
+  const failed = statuses.filter(status => status === 'failed').length;
+  const hasSent = statuses.includes('sent');
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Outbox">
+          <Send className={cn("h-4 w-4", failed > 0 ? "text-red-600" : pending > 0 ? "text-yellow-600" : "")} />
+          {pending + failed > 0 && (
+            <span className={cn(
+              "absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full text-[10px] leading-4 text-white",
+              failed > 0 ? "bg-red-600" : "bg-yellow-500"
+            )}>
+              {pending + failed}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-similarteia-dark">Outbox</h3>
+          {hasSent && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => outbox.clearSent()}>
+              Clear sent
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-similarteia-muted">
+          {pending > 0
+            ? "Events are retried until every relay has answered."
+            : "Everything has been delivered or given up on."}
+        </p>
+        <ul className="divide-y max-h-96 overflow-y-auto">
+          {items.map(item => <OutboxEntry key={item.id} item={item} />)}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
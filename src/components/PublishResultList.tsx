@@ -0,0 +1,44 @@
+import { CheckCircle2, XCircle, Clock, AlertTriangle } from "lucide-react";
+import { PublishResult, RelayPublishStatus } from "@/lib/nostr";
+import { cn } from "@/lib/utils";
+
+interface PublishResultListProps {
+  result: PublishResult;
+  className?: string;
+}
+
+const statusInfo: Record<RelayPublishStatus, { label: string; className: string; icon: typeof CheckCircle2 }> = {
+  accepted: { label: "Accepted", className: "text-green-600", icon: CheckCircle2 },
+  rejected: { label: "Rejected", className: "text-red-600", icon: XCircle },
+  timeout: { label: "No response", className: "text-yellow-600", icon: Clock },
+  error: { label: "Connection failed", className: "text-red-600", icon: AlertTriangle },
+};
+
+/**
+ * Shows how each relay responded to a published event
+ */
+export function PublishResultList({ result, className }: PublishResultListProps) {
+  return (
+    <ul className={cn("divide-y rounded-md border bg-white", className)}>
+      {result.relays.map((relay) => {
+        const info = statusInfo[relay.status];
+        const Icon = info.icon;
+        
+        return (
+          <li key={relay.url} className="flex items-start gap-3 p-3 text-sm">
+            <Icon className={cn("h-4 w-4 mt-0.5 flex-shrink-0", info.className)} />
+            <div className="min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono truncate">{relay.url}</span>
+                <span className={cn("text-xs font-medium", info.className)}>{info.label}</span>
+              </div>
+              {relay.message && (
+                <p className="text-xs text-muted-foreground break-words">{relay.message}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
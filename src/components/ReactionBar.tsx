@@ -0,0 +1,103 @@
+import { SmilePlus, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/contexts/AuthContext";
+import { useNostrClient } from "@/contexts/NostrContext";
+import { SimilarityEvent } from "@/lib/nostr";
+import {
+  AGREE,
+  DISAGREE,
+  REACTION_EMOJIS,
+  normalizeReaction,
+  summarizeReactions,
+  useReact,
+  useReactions,
+} from "@/lib/reactions";
+import { cn } from "@/lib/utils";
+
+interface ReactionBarProps {
+  event: SimilarityEvent;
+}
+
+/**
+ * Agree/disagree and emoji reactions (NIP-25) under a similarity, with the viewer's own highlighted
+ */
+export function ReactionBar({ event }: ReactionBarProps) {
+  const { user, canSign } = useAuth();
+  const client = useNostrClient();
+  const { data: reactions = [] } = useReactions(event, client);
+  const react = useReact(event, client);
+
+  const summary = summarizeReactions(reactions, user?.pubkey);
+  const ownReactions = summary.own.map(reaction => normalizeReaction(reaction.content));
+  const emojis = Object.entries(summary.emojis).sort((a, b) => b[1] - a[1]);
+
+  const reactionClass = (content: string) => cn(
+    "h-7 px-2 gap-1 text-xs",
+    ownReactions.includes(content) && "bg-similarteia-accent/10 text-similarteia-accent hover:bg-similarteia-accent/20 hover:text-similarteia-accent"
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={reactionClass(AGREE)}
+        title={canSign ? "Agree" : "Log in with a signing key to react"}
+        disabled={!canSign}
+        onClick={() => react(AGREE)}
+      >
+        <ThumbsUp className="h-3.5 w-3.5" />
+        {summary.agree}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={reactionClass(DISAGREE)}
+        title={canSign ? "Disagree" : "Log in with a signing key to react"}
+        disabled={!canSign}
+        onClick={() => react(DISAGREE)}
+      >
+        <ThumbsDown className="h-3.5 w-3.5" />
+        {summary.disagree}
+      </Button>
+
+      {emojis.map(([emoji, count]) => (
+        <Button
+          key={emoji}
+          variant="ghost"
+          size="sm"
+          className={reactionClass(emoji)}
+          disabled={!canSign}
+          onClick={() => react(emoji)}
+        >
+          <span>{emoji}</span>
+          {count}
+        </Button>
+      ))}
+
+      {canSign && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2" title="React with an emoji">
+              <SmilePlus className="h-3.5 w-3.5" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-1 flex gap-1">
+            {REACTION_EMOJIS.map(emoji => (
+              <Button
+                key={emoji}
+                variant="ghost"
+                size="sm"
+                className={reactionClass(emoji)}
+                onClick={() => react(emoji)}
+              >
+                {emoji}
+              </Button>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { Badge } from "@/components/ui/badge";
+import { useRelayInfo } from "@/hooks/useRelayInfo";
+import { supportsNip } from "@/lib/relayInfo";
+
+interface RelayInfoSummaryProps {
+  url: string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+
+/**
+ * Name, requirements and limits a relay announces in its NIP-11 document
+ */
+export function RelayInfoSummary({ url }: RelayInfoSummaryProps) {
+  const { data: info, isLoading } = useRelayInfo(url);
+
+  if (isLoading) {
+    return <p className="text-xs text-similarteia-muted">Loading relay information...</p>;
+  }
+  if (!info) {
+    return <p className="text-xs text-similarteia-muted">No relay information (NIP-11) available</p>;
+  }
+
+  const limitation = info.limitation || {};
+  const limits = [
+    limitation.max_subscriptions && `${limitation.max_subscriptions} subscriptions`,
+    limitation.max_filters && `${limitation.max_filters} filters per request`,
+    limitation.max_limit && `up to ${limitation.max_limit} events per filter`,
+    limitation.max_message_length && `${formatBytes(limitation.max_message_length)} messages`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-1 text-xs text-similarteia-muted">
+      <div className="flex flex-wrap items-center gap-2">
+        {info.name && <span className="font-medium text-similarteia-dark">{info.name}</span>}
+        {info.software && (
+          <span className="truncate">
+            {info.software.replace(/^https?:\/\/(www\.)?/, '')}{info.version ? ` ${info.version}` : ''}
+          </span>
+        )}
+        {limitation.auth_required && (
+          <Badge variant="outline" className="bg-yellow-100 text-yellow-700 border-yellow-200">Login required</Badge>
+        )}
+        {limitation.payment_required && (
+          <Badge variant="outline" className="bg-purple-100 text-purple-700 border-purple-200">
+            {info.payments_url ? (
+              <a href={info.payments_url} target="_blank" rel="noopener noreferrer">Paid relay</a>
+            ) : "Paid relay"}
+          </Badge>
+        )}
+        {supportsNip(info, 77) && (
+          <Badge variant="outline" className="bg-blue-100 text-blue-700 border-blue-200">Fast sync (NIP-77)</Badge>
+        )}
+      </div>
+      {limits.length > 0 && <p>Limits: {limits.join(" · ")}</p>}
+    </div>
+  );
+}
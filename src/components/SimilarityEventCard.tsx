@@ -1,21 +1,61 @@
-import { useEffect, useState, useCallback } from "react";
-import { SimilarityEvent, Book } from "@/lib/nostr";
-import { getBooksByISBNs } from "@/lib/openlibrary";
+import { useEffect, useState, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Pencil, Trash2 } from "lucide-react";
+import { SimilarityEvent, NostrEvent, deleteSimilarityEvent } from "@/lib/nostr";
+import { useBooksByIdentifiers } from "@/lib/bookLookup";
+import { formatIdentifier, getBookIdentifier, getIdentifierKey, getIdentifierUrl } from "@/lib/bookIdentifiers";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useNostrClient } from "@/contexts/NostrContext";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { UserAvatar, UserName } from "./UserAvatar";
 import { BookCover } from "./BookCover";
+import { ReactionBar } from "./ReactionBar";
+import { CommentThread } from "./CommentThread";
 import { usePrefetchUserProfiles } from "@/lib/userProfiles";
 
 interface SimilarityEventCardProps {
   event: SimilarityEvent;
+  // Called with the deletion once the author deleted this similarity
+  onDeleted?: (deletion: NostrEvent) => void;
+  // Comment thread state, when the parent keeps it across remounts
+  commentsOpen?: boolean;
+  onCommentsOpenChange?: (open: boolean) => void;
 }
 
-export function SimilarityEventCard({ event }: SimilarityEventCardProps) {
-  const [books, setBooks] = useState<Record<string, Book>>({});
-  const [isLoading, setIsLoading] = useState(true);
-  const prefetchProfiles = usePrefetchUserProfiles();
+export function SimilarityEventCard({ event, onDeleted, commentsOpen, onCommentsOpenChange }: SimilarityEventCardProps) {
+  const { user, canSign } = useAuth();
+  const navigate = useNavigate();
+  const client = useNostrClient();
+  const prefetchProfiles = usePrefetchUserProfiles(client);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const isOwnEvent = canSign && user?.pubkey === event.pubkey;
+
+  const handleDelete = async () => {
+    try {
+      setIsDeleting(true);
+      const deletion = await deleteSimilarityEvent(event, client);
+      onDeleted?.(deletion);
+    } catch (error) {
+      // deleteSimilarityEvent already told the user
+      console.error("Failed to delete similarity:", error);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
   
   // Prefetch the user profile when component mounts
   // Using a separate effect with fewer dependencies to avoid unnecessary re-runs
@@ -25,30 +65,19 @@ export function SimilarityEventCard({ event }: SimilarityEventCardProps) {
     }
   }, [event?.pubkey, prefetchProfiles]);
 
-  // Books fetch effect kept separate to avoid mixing concerns
-  const fetchBooks = useCallback(async (isbns: string[]) => {
-    try {
-      setIsLoading(true);
-      console.log('Fetching books for ISBNs:', isbns);
-      const fetchedBooks = await getBooksByISBNs(isbns);
-      console.log('Fetched books:', fetchedBooks);
-      setBooks(fetchedBooks);
-    } catch (error) {
-      console.error("Failed to fetch books:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-  
-  useEffect(() => {
-    if (event?.book1?.isbn && event?.book2?.isbn) {
-      fetchBooks([event.book1.isbn, event.book2.isbn]);
-    }
-  }, [event?.book1?.isbn, event?.book2?.isbn, fetchBooks]);
+  const identifier1 = useMemo(() => getBookIdentifier(event.book1), [event.book1]);
+  const identifier2 = useMemo(() => getBookIdentifier(event.book2), [event.book2]);
+  const key1 = identifier1 ? getIdentifierKey(identifier1) : '';
+  const key2 = identifier2 ? getIdentifierKey(identifier2) : '';
 
-  // Get books from state or fallback to event data
-  const book1 = books[event.book1.isbn] || event.book1;
-  const book2 = books[event.book2.isbn] || event.book2;
+  // Cached across cards, so scrolling a card back into view doesn't fetch its books again
+  const { data: books = {}, isLoading } = useBooksByIdentifiers(
+    identifier1 && identifier2 ? [identifier1, identifier2] : []
+  );
+
+  // Get books from the lookup or fallback to event data
+  const book1 = books[key1] || event.book1;
+  const book2 = books[key2] || event.book2;
 
   // Format date for display
   const formatDate = (timestamp: number) => {
@@ -70,8 +99,49 @@ export function SimilarityEventCard({ event }: SimilarityEventCardProps) {
             <UserAvatar pubkey={event.pubkey} size="sm" />
             <UserName pubkey={event.pubkey} className="font-medium" />
           </div>
-          <div className="text-sm text-muted-foreground">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
             {formatDate(event.createdAt)}
+            {isOwnEvent && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  title="Edit your similarity"
+                  onClick={() => navigate("/create", { state: { book1, book2 } })}
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 hover:text-red-600"
+                      title="Delete your similarity"
+                      disabled={isDeleting}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this similarity?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Your relays will be asked to delete it, and SimilarTeia will hide it for everyone.
+                        Other Nostr clients and relays may still keep a copy.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -109,9 +179,16 @@ export function SimilarityEventCard({ event }: SimilarityEventCardProps) {
                 <p className="text-sm text-similarteia-muted truncate">
                   {book1.author}
                 </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  ISBN: {book1.isbn}
-                </p>
+                {identifier1 && (
+                  <a
+                    href={getIdentifierUrl(identifier1)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-xs text-muted-foreground mt-1 hover:underline truncate"
+                  >
+                    {formatIdentifier(identifier1)}
+                  </a>
+                )}
               </div>
               
               {/* Add a visual connector between books */}
@@ -185,9 +262,16 @@ export function SimilarityEventCard({ event }: SimilarityEventCardProps) {
                 <p className="text-sm text-similarteia-muted truncate">
                   {book2.author}
                 </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  ISBN: {book2.isbn}
-                </p>
+                {identifier2 && (
+                  <a
+                    href={getIdentifierUrl(identifier2)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-xs text-muted-foreground mt-1 hover:underline truncate"
+                  >
+                    {formatIdentifier(identifier2)}
+                  </a>
+                )}
               </div>
               
               {/* Add a visual connector between books */}
@@ -203,6 +287,14 @@ export function SimilarityEventCard({ event }: SimilarityEventCardProps) {
             <div className="text-sm">
               {event.content || "No additional details provided."}
             </div>
+            
+            <div className="mt-4">
+              <ReactionBar event={event} />
+            </div>
+            
+            <div className="mt-2">
+              <CommentThread event={event} isOpen={commentsOpen} onOpenChange={onCommentsOpenChange} />
+            </div>
           </>
         )}
       </CardContent>
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import { NostrEvent, SimilarityEvent } from "@/lib/nostr";
+import { SimilarityEventCard } from "@/components/SimilarityEventCard";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+
+interface SimilarityEventListProps {
+  events: SimilarityEvent[];
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  // Called with the deletion after the reader deleted one of their similarities
+  onDeleted?: (deletion: NostrEvent) => void;
+}
+
+// Rough card height used until a card has been measured
+const ESTIMATED_CARD_HEIGHT = 420;
+// Gap between cards, matching the space-y-6 spacing used elsewhere
+const CARD_GAP = 24;
+
+/**
+ * Window-virtualized list of similarity cards
+ * Only the cards near the viewport are mounted; a sentinel at the end loads older pages.
+ * Which comment threads are open is kept here so it survives a card being remounted.
+ */
+export function SimilarityEventList({ events, hasMore, isLoadingMore, onLoadMore, onDeleted }: SimilarityEventListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Open comment threads, kept here because cards unmount when scrolled away
+  const [openThreads, setOpenThreads] = useState<Set<string>>(() => new Set());
+
+  const setThreadOpen = useCallback((eventId: string, open: boolean) => {
+    setOpenThreads(prev => {
+      const next = new Set(prev);
+      if (open) {
+        next.add(eventId);
+      } else {
+        next.delete(eventId);
+      }
+      return next;
+    });
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: events.length,
+    estimateSize: () => ESTIMATED_CARD_HEIGHT + CARD_GAP,
+    overscan: 3,
+    scrollMargin: listRef.current?.offsetTop ?? 0,
+    getItemKey: (index) => events[index].id,
+  });
+
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "600px 0px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
+
+  const virtualItems = virtualizer.getVirtualItems();
+
+  return (
+    <div>
+      <div
+        ref={listRef}
+        className="relative w-full"
+        style={{ height: virtualizer.getTotalSize() }}
+      >
+        {virtualItems.map((item) => (
+          <div
+            key={item.key}
+            data-index={item.index}
+            ref={virtualizer.measureElement}
+            className="absolute top-0 left-0 w-full"
+            style={{
+              transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)`,
+              paddingBottom: CARD_GAP,
+            }}
+          >
+            <SimilarityEventCard
+              event={events[item.index]}
+              onDeleted={onDeleted}
+              commentsOpen={openThreads.has(events[item.index].id)}
+              onCommentsOpenChange={(open) => setThreadOpen(events[item.index].id, open)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div ref={sentinelRef}>
+        {isLoadingMore ? (
+          <Skeleton className="w-full h-64" />
+        ) : hasMore ? (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={onLoadMore}>
+              Load older similarities
+            </Button>
+          </div>
+        ) : (
+          <p className="text-center text-sm text-similarteia-muted">
+            You've reached the beginning of the similarity history.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
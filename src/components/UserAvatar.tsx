@@ -2,6 +2,7 @@ import React from 'react';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useUserProfile, formatPubkey } from '@/lib/userProfiles';
+import { useNostrClient } from '@/contexts/NostrContext';
 
 interface UserAvatarProps {
   pubkey: string;
@@ -14,7 +15,8 @@ interface UserAvatarProps {
  * Component for displaying a user's avatar with Nostr profile information
  */
 export function UserAvatar({ pubkey, size = 'md', showTooltip = true, className = '' }: UserAvatarProps) {
-  const { data: profile, isLoading } = useUserProfile(pubkey);
+  const client = useNostrClient();
+  const { data: profile, isLoading } = useUserProfile(pubkey, client);
   
   // Size classes
   const sizeClasses = {
@@ -86,7 +88,8 @@ export function UserAvatar({ pubkey, size = 'md', showTooltip = true, className
  * Component that displays user's name and/or pubkey
  */
 export function UserName({ pubkey, className = '' }: { pubkey: string; className?: string }) {
-  const { data: profile } = useUserProfile(pubkey);
+  const client = useNostrClient();
+  const { data: profile } = useUserProfile(pubkey, client);
   
   const displayName = profile?.metadata?.name || 
                       profile?.metadata?.displayName;
@@ -1,4 +1,5 @@
 import { useUserProfile, formatPubkey } from '@/lib/userProfiles';
+import { useNostrClient } from '@/contexts/NostrContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -14,7 +15,8 @@ interface UserProfileCardProps {
  * Component for displaying a user's profile card with metadata
  */
 export function UserProfileCard({ pubkey, showBanner = true, className = '' }: UserProfileCardProps) {
-  const { data: profile, isLoading } = useUserProfile(pubkey);
+  const client = useNostrClient();
+  const { data: profile, isLoading } = useUserProfile(pubkey, client);
   
   if (isLoading) {
     return (
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useNostrClient } from "@/contexts/NostrContext";
 import { useUserProfile, formatPubkey } from "@/lib/userProfiles";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,11 +12,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { LogOut, User, KeyRound, AlertTriangle } from "lucide-react";
+import { LogOut, User, KeyRound, AlertTriangle, Radio } from "lucide-react";
 
 export function UserProfileMenu() {
   const { user, canSign, logout } = useAuth();
-  const { data: profile } = useUserProfile(user?.pubkey || null);
+  const client = useNostrClient();
+  const { data: profile } = useUserProfile(user?.pubkey || null, client);
   
   if (!user?.pubkey) {
     return null;
@@ -97,6 +99,13 @@ export function UserProfileMenu() {
           <span>Profile</span>
         </DropdownMenuItem>
         
+        <DropdownMenuItem asChild className="flex items-center">
+          <Link to="/settings">
+            <Radio className="mr-2 h-4 w-4" />
+            <span>Relays</span>
+          </Link>
+        </DropdownMenuItem>
+        
         <DropdownMenuSeparator />
         
         <DropdownMenuItem onClick={logout} className="text-red-500 focus:text-red-500 flex items-center">
@@ -12,7 +12,8 @@ import {
   canSignEvents,
   type User
 } from "@/lib/auth";
-import { connectToRelay } from "@/lib/nostr";
+import { useNostrClient } from "@/contexts/NostrContext";
+import { setupUserRelays, resetRelays } from "@/lib/relayList";
 
 interface AuthContextType {
   isLoading: boolean;
@@ -41,7 +42,8 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<User | null>(null);
-  const prefetchProfiles = usePrefetchUserProfiles();
+  const client = useNostrClient();
+  const prefetchProfiles = usePrefetchUserProfiles(client);
 
   // When user changes and is not null, prefetch the user's profile
   useEffect(() => {
@@ -63,8 +65,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         if (user) {
           setUser(user);
           
-          // Try to connect to relay
-          connectToRelay().catch(error => {
+          // Load the user's relay list, then connect to those relays
+          setupUserRelays(user.pubkey, client).then(() => client.connect()).catch(error => {
             console.error("Failed to connect to relay:", error);
             toast({
               title: "Connection Error",
@@ -86,7 +88,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
     
     initializeAuth();
-  }, []);
+  }, [client]);
 
   const handleLoginWithExtension = useCallback(async () => {
     try {
@@ -96,9 +98,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       if (user) {
         setUser(user);
         
-        // Try to connect to relay
+        // Load the user's relay list, then connect to those relays
         try {
-          await connectToRelay();
+          await setupUserRelays(user.pubkey, client);
+          await client.connect();
         } catch (error) {
           console.error("Failed to connect to relay:", error);
           toast({
@@ -117,7 +120,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [client]);
 
   const handleLoginWithNsec = useCallback(async (nsec: string) => {
     try {
@@ -127,9 +130,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       if (user) {
         setUser(user);
         
-        // Try to connect to relay
+        // Load the user's relay list, then connect to those relays
         try {
-          await connectToRelay();
+          await setupUserRelays(user.pubkey, client);
+          await client.connect();
         } catch (error) {
           console.error("Failed to connect to relay:", error);
           toast({
@@ -148,7 +152,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [client]);
 
   const handleLoginWithNpub = useCallback(async (npub: string) => {
     try {
@@ -158,9 +162,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       if (user) {
         setUser(user);
         
-        // Try to connect to relay
+        // Load the user's relay list, then connect to those relays
         try {
-          await connectToRelay();
+          await setupUserRelays(user.pubkey, client);
+          await client.connect();
         } catch (error) {
           console.error("Failed to connect to relay:", error);
           toast({
@@ -184,12 +189,13 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [client]);
 
   const handleLogout = useCallback(() => {
     authLogout();
+    resetRelays(client);
     setUser(null);
-  }, []);
+  }, [client]);
 
   return (
     <AuthContext.Provider
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
-import { Book } from '@/hooks/useNostrService';
+import { Book } from '@/lib/nostr';
 import { toast } from '@/components/ui/use-toast';
+import { normalizeIsbn, toIsbn13 } from '@/lib/isbn';
 
 // API Constants
 const OPENLIBRARY_BASE_URL = "https://openlibrary.org";
@@ -34,8 +35,8 @@ async function fetchBooksByISBNs(isbns: string[]): Promise<Record<string, Book>>
     // Handle empty array case
     if (!isbns.length) return {};
     
-    // Normalize ISBNs
-    const normalizedISBNs = isbns.map(isbn => isbn.replace(/[-\s]/g, '').trim());
+    // Normalize ISBNs to ISBN-13
+    const normalizedISBNs = isbns.map(normalizeIsbn);
     
     // Create bibkeys for API
     const bibkeys = normalizedISBNs.map(isbn => `ISBN:${isbn}`).join(',');
@@ -78,8 +79,8 @@ async function fetchBooksByISBNs(isbns: string[]): Promise<Record<string, Book>>
         
         // Create book object
         result[originalISBN] = {
-          isbn: originalISBN,
-          title: bookData.title || `Book ${originalISBN}`,
+          isbn: normalizedISBN,
+          title: bookData.title || `Book ${normalizedISBN}`,
           author: bookData.authors?.[0]?.name || "Unknown Author",
           cover: coverUrl,
           fallbackCoverUrls: generateFallbackCoverUrls(normalizedISBN)
@@ -87,8 +88,8 @@ async function fetchBooksByISBNs(isbns: string[]): Promise<Record<string, Book>>
       } else {
         // Create fallback for books without data
         result[originalISBN] = {
-          isbn: originalISBN,
-          title: `Book ${originalISBN}`,
+          isbn: normalizedISBN,
+          title: `Book ${normalizedISBN}`,
           author: "Unknown Author",
           cover: `${COVERS_BASE_URL}/b/isbn/${normalizedISBN}-M.jpg`,
           fallbackCoverUrls: generateFallbackCoverUrls(normalizedISBN)
@@ -155,7 +156,8 @@ async function searchBooksApi(query: string): Promise<Book[]> {
         }
       }
       
-      // Skip books without ISBN
+      // Use the ISBN-13 whichever form was found; skip books without a valid ISBN
+      isbn = isbn ? toIsbn13(isbn) ?? '' : '';
       if (!isbn) continue;
       
       // Generate cover URL
@@ -198,7 +200,7 @@ async function searchBooksApi(query: string): Promise<Book[]> {
  */
 export function useBooksByISBNs(isbns: string[]) {
   return useQuery({
-    queryKey: ['books', 'isbn', isbns.sort().join(',')],
+    queryKey: ['books', 'isbn', [...new Set(isbns.map(normalizeIsbn))].sort().join(',')],
     queryFn: () => fetchBooksByISBNs(isbns),
     enabled: isbns.length > 0,
     staleTime: 1000 * 60 * 60, // 1 hour
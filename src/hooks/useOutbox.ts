@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { useNostrClient } from '@/contexts/NostrContext';
+import type { OutboxItem } from '@/lib/nostr';
+
+/**
+ * Items in the client's outbox, newest first, kept up to date as deliveries progress
+ */
+export function useOutbox(): OutboxItem[] {
+  const { outbox } = useNostrClient();
+  const [items, setItems] = useState<OutboxItem[]>(() => outbox.getItems());
+
+  useEffect(() => {
+    setItems(outbox.getItems());
+    return outbox.onChange(() => setItems(outbox.getItems()));
+  }, [outbox]);
+
+  return items;
+}
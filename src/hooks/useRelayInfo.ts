@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { useNostrClient } from '@/contexts/NostrContext';
+
+/**
+ * A relay's NIP-11 information document; data is null when the relay has none
+ */
+export function useRelayInfo(relayUrl: string) {
+  const client = useNostrClient();
+
+  return useQuery({
+    queryKey: ['relayInfo', relayUrl],
+    queryFn: () => client.getRelayInfo(relayUrl),
+    // The client keeps its own cache, so there's no need to refetch on focus
+    staleTime: 60 * 60 * 1000,
+  });
+}
@@ -0,0 +1,150 @@
+import type { Book } from './nostr';
+import { isValidIsbn, normalizeIsbn, toIsbn13 } from './isbn';
+
+/**
+ * Book identifiers as NIP-73 external content ids
+ * ISBNs and DOIs have their own NIP-73 types; Open Library and Wikidata items
+ * are referenced by URL (`web`), which every NIP-73 reader understands.
+ */
+
+export type BookIdentifierType = 'isbn' | 'openlibrary' | 'wikidata' | 'doi';
+
+export interface BookIdentifier {
+  type: BookIdentifierType;
+  // Canonical form: ISBN-13 (see normalizeIsbn), "OL123W"/"OL123M", "Q42", or a lowercase DOI like "10.1000/xyz"
+  value: string;
+}
+
+// Preferred order when a book has several identifiers
+export const BOOK_IDENTIFIER_TYPES: BookIdentifierType[] = ['isbn', 'openlibrary', 'wikidata', 'doi'];
+
+export const BOOK_IDENTIFIER_LABELS: Record<BookIdentifierType, string> = {
+  isbn: 'ISBN',
+  openlibrary: 'Open Library',
+  wikidata: 'Wikidata',
+  doi: 'DOI',
+};
+
+const OPENLIBRARY_URL = /^https:\/\/openlibrary\.org\/(works|books)\/(OL\d+[WM])$/;
+const WIKIDATA_URL = /^https:\/\/www\.wikidata\.org\/wiki\/(Q\d+)$/;
+const OPENLIBRARY_ID = /^OL\d+[WM]$/;
+const WIKIDATA_ID = /^Q\d+$/;
+const DOI = /^10\.\d{4,9}\/\S+$/;
+
+/**
+ * Why an identifier is unusable, or null when it is fine
+ */
+export function validateBookIdentifier(identifier: BookIdentifier): string | null {
+  const { type, value } = identifier;
+  switch (type) {
+    case 'isbn':
+      return isValidIsbn(value) ? null : `${value} is not a valid ISBN-10 or ISBN-13`;
+    case 'openlibrary':
+      return OPENLIBRARY_ID.test(value) ? null : `${value} is not an Open Library work or edition id`;
+    case 'wikidata':
+      return WIKIDATA_ID.test(value) ? null : `${value} is not a Wikidata item id`;
+    case 'doi':
+      return DOI.test(value) ? null : `${value} is not a DOI`;
+    default:
+      return `Unknown identifier type ${type}`;
+  }
+}
+
+/**
+ * A string that is equal for equal identifiers, for map keys and comparisons
+ */
+export function getIdentifierKey(identifier: BookIdentifier): string {
+  return `${identifier.type}:${identifier.value}`;
+}
+
+/**
+ * The NIP-73 `i` and `k` tags for an identifier
+ */
+export function toIdentifierTags(identifier: BookIdentifier): [string[], string[]] {
+  const { type, value } = identifier;
+  switch (type) {
+    case 'isbn':
+      return [['i', `isbn:${value}`], ['k', 'isbn']];
+    case 'doi':
+      return [['i', `doi:${value}`], ['k', 'doi']];
+    case 'openlibrary':
+      return [['i', getIdentifierUrl(identifier)], ['k', 'web']];
+    case 'wikidata':
+      return [['i', getIdentifierUrl(identifier)], ['k', 'web']];
+  }
+}
+
+/**
+ * Read an identifier from an `i` tag value and its NIP-73 kind
+ * Returns null for kinds and URLs that don't identify a book; the value is not validated.
+ */
+export function parseIdentifierTag(value: string, kind: string): BookIdentifier | null {
+  if (kind === 'isbn' && value.startsWith('isbn:')) {
+    return { type: 'isbn', value: normalizeIsbn(value.slice('isbn:'.length)) };
+  }
+  if (kind === 'doi' && value.startsWith('doi:')) {
+    return { type: 'doi', value: value.slice('doi:'.length).toLowerCase() };
+  }
+  if (kind === 'web') {
+    const openLibrary = OPENLIBRARY_URL.exec(value);
+    if (openLibrary) return { type: 'openlibrary', value: openLibrary[2] };
+    const wikidata = WIKIDATA_URL.exec(value);
+    if (wikidata) return { type: 'wikidata', value: wikidata[1] };
+  }
+  return null;
+}
+
+/**
+ * Recognize an identifier typed or pasted by a user, e.g. "doi:10.1000/xyz",
+ * "Q42", "OL45883W", an Open Library or Wikidata URL, or an ISBN with hyphens
+ */
+export function parseIdentifierInput(input: string): BookIdentifier | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  const doi = /^(?:doi:|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i.exec(text);
+  if (doi) return { type: 'doi', value: doi[1].toLowerCase() };
+
+  const wikidata = /^(?:https?:\/\/(?:www\.)?wikidata\.org\/wiki\/)?(Q\d+)$/i.exec(text);
+  if (wikidata) return { type: 'wikidata', value: wikidata[1].toUpperCase() };
+
+  const openLibrary = /^(?:https?:\/\/(?:www\.)?openlibrary\.org\/(?:works|books)\/)?(OL\d+[WM])(?:\/.*)?$/i.exec(text);
+  if (openLibrary) return { type: 'openlibrary', value: openLibrary[1].toUpperCase() };
+
+  const isbn = toIsbn13(text.replace(/^isbn:?\s*/i, ''));
+  return isbn ? { type: 'isbn', value: isbn } : null;
+}
+
+/**
+ * Where a reader can look the identifier up
+ */
+export function getIdentifierUrl(identifier: BookIdentifier): string {
+  const { type, value } = identifier;
+  switch (type) {
+    case 'isbn':
+      return `https://openlibrary.org/isbn/${value}`;
+    case 'openlibrary':
+      return `https://openlibrary.org/${value.endsWith('W') ? 'works' : 'books'}/${value}`;
+    case 'wikidata':
+      return `https://www.wikidata.org/wiki/${value}`;
+    case 'doi':
+      return `https://doi.org/${value}`;
+  }
+}
+
+/**
+ * e.g. "ISBN: 9780141439518" or "Wikidata: Q42"
+ */
+export function formatIdentifier(identifier: BookIdentifier): string {
+  return `${BOOK_IDENTIFIER_LABELS[identifier.type]}: ${identifier.value}`;
+}
+
+/**
+ * The identifier a similarity event should use for a book: its ISBN when it has one
+ */
+export function getBookIdentifier(book: Book): BookIdentifier | null {
+  if (book.isbn) {
+    return { type: 'isbn', value: normalizeIsbn(book.isbn) };
+  }
+  return book.identifier ?? null;
+}
@@ -0,0 +1,166 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Book } from "./nostr";
+import { getBookByOpenLibraryId, getBooksByISBNs } from "./openlibrary";
+import { getIdentifierKey, type BookIdentifier } from "./bookIdentifiers";
+
+const WIKIDATA_API_URL = "https://www.wikidata.org/w/api.php";
+const CROSSREF_API_URL = "https://api.crossref.org/works";
+const LOOKUP_TIMEOUT = 8000;
+
+// Cache configuration
+const CACHE_TTL = 1000 * 60 * 60 * 24; // 24 hours, like OpenLibrary data
+const lookupCache: Record<string, { book: Book | null; timestamp: number }> = {};
+
+interface WikidataResponse {
+  entities?: Record<string, {
+    labels?: Record<string, { value: string }>;
+    claims?: Record<string, {
+      mainsnak?: { datavalue?: { value?: { id?: string } } };
+    }[]>;
+  }>;
+}
+
+interface CrossrefResponse {
+  message?: {
+    title?: string[];
+    author?: { given?: string; family?: string }[];
+  };
+}
+
+/**
+ * Parsed JSON body, or null when the API says the record doesn't exist
+ */
+async function fetchJson<T>(url: string): Promise<T | null> {
+  const response = await fetch(url, {
+    headers: { 'Accept': 'application/json' },
+    signal: AbortSignal.timeout(LOOKUP_TIMEOUT)
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`${new URL(url).host} error: ${response.status}`);
+  }
+  return response.json();
+}
+
+async function getWikidataEntities(ids: string, props: string): Promise<WikidataResponse | null> {
+  const params = new URLSearchParams({
+    action: 'wbgetentities',
+    ids,
+    props,
+    languages: 'en',
+    format: 'json',
+    // Lets the API answer cross-origin requests without credentials
+    origin: '*',
+  });
+  return fetchJson<WikidataResponse>(`${WIKIDATA_API_URL}?${params}`);
+}
+
+/**
+ * Title and first author (P50) of a Wikidata item
+ */
+async function getWikidataBook(id: string): Promise<Book | null> {
+  const data = await getWikidataEntities(id, 'labels|claims');
+  const entity = data?.entities?.[id];
+  if (!entity?.labels?.en) return null;
+
+  let author = "Unknown Author";
+  const authorId = entity.claims?.P50?.[0]?.mainsnak?.datavalue?.value?.id;
+  if (authorId) {
+    const authorData = await getWikidataEntities(authorId, 'labels');
+    author = authorData?.entities?.[authorId]?.labels?.en?.value || author;
+  }
+
+  return {
+    identifier: { type: 'wikidata', value: id },
+    title: entity.labels.en.value,
+    author,
+  };
+}
+
+/**
+ * Title and first author of a DOI from Crossref
+ */
+async function getCrossrefBook(doi: string): Promise<Book | null> {
+  const data = await fetchJson<CrossrefResponse>(`${CROSSREF_API_URL}/${encodeURIComponent(doi)}`);
+  const work = data?.message;
+  if (!work?.title?.[0]) return null;
+
+  const author = work.author?.[0];
+  return {
+    identifier: { type: 'doi', value: doi },
+    title: work.title[0],
+    author: author ? [author.given, author.family].filter(Boolean).join(' ') : "Unknown Author",
+  };
+}
+
+async function lookupIdentifier(identifier: BookIdentifier): Promise<Book | null> {
+  // OpenLibrary keeps its own cache of the records it found
+  if (identifier.type === 'openlibrary') {
+    return getBookByOpenLibraryId(identifier.value);
+  }
+
+  const key = getIdentifierKey(identifier);
+  const cached = lookupCache[key];
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+    return cached.book;
+  }
+
+  let book: Book | null = null;
+  try {
+    if (identifier.type === 'wikidata') {
+      book = await getWikidataBook(identifier.value);
+    } else if (identifier.type === 'doi') {
+      book = await getCrossrefBook(identifier.value);
+    }
+  } catch (error) {
+    // Not cached, so the next lookup tries again
+    console.error(`Failed to look up ${key}:`, error);
+    return null;
+  }
+
+  lookupCache[key] = { book, timestamp: Date.now() };
+  return book;
+}
+
+/**
+ * Book details for any mix of identifiers, keyed by getIdentifierKey
+ * ISBNs go to OpenLibrary in one request; Open Library ids, Wikidata items and
+ * DOIs are looked up one by one. Identifiers nobody knows are left out.
+ */
+export const getBooksByIdentifiers = async (identifiers: BookIdentifier[]): Promise<Record<string, Book>> => {
+  const result: Record<string, Book> = {};
+
+  const isbns = identifiers.filter(identifier => identifier.type === 'isbn').map(identifier => identifier.value);
+  const others = identifiers.filter(identifier => identifier.type !== 'isbn');
+
+  const [isbnBooks, otherBooks] = await Promise.all([
+    isbns.length > 0 ? getBooksByISBNs(isbns) : Promise.resolve({} as Record<string, Book>),
+    Promise.all(others.map(lookupIdentifier)),
+  ]);
+
+  for (const isbn of isbns) {
+    if (isbnBooks[isbn]) {
+      result[getIdentifierKey({ type: 'isbn', value: isbn })] = isbnBooks[isbn];
+    }
+  }
+  others.forEach((identifier, i) => {
+    const book = otherBooks[i];
+    if (book) {
+      result[getIdentifierKey(identifier)] = book;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * React Query hook for getBooksByIdentifiers; cached so remounted cards show their books right away
+ */
+export function useBooksByIdentifiers(identifiers: BookIdentifier[]) {
+  return useQuery({
+    queryKey: ['books', ...identifiers.map(getIdentifierKey)],
+    queryFn: () => getBooksByIdentifiers(identifiers),
+    enabled: identifiers.length > 0,
+    staleTime: CACHE_TTL,
+  });
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { MockRelay, createInMemoryTransport } from './mockRelay';
+import { NostrClient } from './nostrClient';
+import { COMMENT_KIND, buildCommentTags, buildCommentTree, fetchComments } from './comments';
+import { getEventAddress } from './eventStore';
+import type { NostrEvent, SimilarityEvent } from './nostr';
+
+const author = generateSecretKey();
+const now = Math.floor(Date.now() / 1000);
+
+// Only the fields a comment thread uses
+function similarity(created_at: number, pair = 'pair'): SimilarityEvent {
+  const event = finalizeEvent({ kind: 31729, created_at, tags: [['d', pair]], content: "" }, author);
+  return { ...event, createdAt: created_at, address: getEventAddress(event) } as unknown as SimilarityEvent;
+}
+
+function comment(secretKey: Uint8Array, root: SimilarityEvent, content: string, parent: NostrEvent | null = null, created_at = now - 100): NostrEvent {
+  return finalizeEvent({ kind: COMMENT_KIND, created_at, tags: buildCommentTags(root, parent), content }, secretKey);
+}
+
+function createClient(relay: MockRelay, url: string): NostrClient {
+  return new NostrClient({
+    transport: createInMemoryTransport(relay),
+    relays: [{ url, read: true, write: true }],
+    relayInfoLoader: async () => null,
+  });
+}
+
+describe('fetchComments', () => {
+  it('finds the comments scoped to a similarity', async () => {
+    const root = similarity(now - 1000);
+    const relay = new MockRelay();
+    relay.seed([comment(generateSecretKey(), root, "on this one"), comment(generateSecretKey(), similarity(now - 900, 'other pair'), "elsewhere")]);
+
+    const comments = await fetchComments(root, createClient(relay, "mock://comments"));
+
+    expect(comments.map(c => c.content)).toEqual(["on this one"]);
+  });
+
+  it('finds comments on earlier versions of an edited similarity', async () => {
+    const original = similarity(now - 1000);
+    const edited = similarity(now - 500);
+    const relay = new MockRelay();
+    relay.seed([comment(generateSecretKey(), original, "on the first version"), comment(generateSecretKey(), edited, "on the edit")]);
+
+    const comments = await fetchComments(edited, createClient(relay, "mock://comments-edited"));
+
+    expect(edited.address).toBe(`31729:${getPublicKey(author)}:pair`);
+    expect(comments.map(c => c.content).sort()).toEqual(["on the edit", "on the first version"]);
+  });
+
+  it('leaves out comments their authors deleted', async () => {
+    const root = similarity(now - 1000);
+    const commenter = generateSecretKey();
+    const deleted = comment(commenter, root, "deleted");
+    const relay = new MockRelay();
+    relay.seed([
+      comment(commenter, root, "kept"),
+      deleted,
+      // Deletions need not name the kind (`k` is optional in NIP-09)
+      finalizeEvent({ kind: 5, created_at: now - 50, tags: [['e', deleted.id]], content: "" }, commenter),
+      // Only the comment's author can delete it
+      finalizeEvent({ kind: 5, created_at: now - 50, tags: [['e', deleted.id], ['k', String(COMMENT_KIND)]], content: "" }, author),
+    ]);
+
+    const comments = await fetchComments(root, createClient(relay, "mock://comments-deleted"));
+
+    expect(comments.map(c => c.content)).toEqual(["kept"]);
+  });
+});
+
+describe('buildCommentTree', () => {
+  it('nests replies under their parents, oldest first', () => {
+    const root = similarity(now - 1000);
+    const first = comment(generateSecretKey(), root, "first", null, now - 300);
+    const second = comment(generateSecretKey(), root, "second", null, now - 200);
+    const reply = comment(generateSecretKey(), root, "reply", first, now - 100);
+
+    const tree = buildCommentTree([reply, second, first], root.id);
+
+    expect(tree.map(node => node.event.content)).toEqual(["first", "second"]);
+    expect(tree[0].replies.map(node => node.event.content)).toEqual(["reply"]);
+  });
+
+  it('shows replies whose parent is missing at the top level', () => {
+    const root = similarity(now - 1000);
+    const missing = comment(generateSecretKey(), root, "not fetched");
+    const orphan = comment(generateSecretKey(), root, "orphan", missing);
+
+    expect(buildCommentTree([orphan], root.id).map(node => node.event.content)).toEqual(["orphan"]);
+  });
+});
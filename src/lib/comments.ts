@@ -0,0 +1,194 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { toast } from "@/components/ui/use-toast";
+import {
+  NostrEvent,
+  SimilarityEvent,
+  NostrClient,
+  NostrFilter,
+  nostrClient,
+  describePublishResult,
+  getAcceptedRelays,
+  getOutboxItemStatus,
+} from './nostr';
+import { isDeletedBy } from './eventStore';
+
+/**
+ * NIP-22 comments on similarity events
+ * Every comment names the similarity as its root scope (`E`, `K`, `P`, plus `A` for
+ * addressable similarities) and its parent (`e`, `k`, `p`): the similarity itself for
+ * top-level comments, another comment for replies.
+ */
+
+export const COMMENT_KIND = 1111;
+// Longest comment accepted, in characters
+export const MAX_COMMENT_LENGTH = 2000;
+
+const COMMENT_CACHE_TIME = 1000 * 60; // Discussions move quickly
+const COMMENT_FETCH_TIMEOUT = 10000;
+const MAX_IDS_PER_FILTER = 50; // Comment ids per `#e` filter when looking up deletions
+
+/**
+ * A comment with its replies, oldest first
+ */
+export interface CommentNode {
+  event: NostrEvent;
+  replies: CommentNode[];
+}
+
+// The similarity a thread hangs off: its id, and for addressable similarities the address shared by every version
+export type CommentRoot = Pick<SimilarityEvent, 'id' | 'address'>;
+
+// Threads on addressable similarities are cached under the address, so they survive edits
+function getThreadKey(root: CommentRoot): string {
+  return root.address || root.id;
+}
+
+// The parent a comment replies to: its lowercase `e` tag
+function getParentId(comment: NostrEvent): string | undefined {
+  return comment.tags.find(tag => tag[0] === 'e')?.[1];
+}
+
+/**
+ * Arrange the comments on a similarity into threads
+ * Comments whose parent is missing (not fetched, or deleted) are shown at the top level
+ * rather than dropped.
+ */
+export function buildCommentTree(comments: NostrEvent[], rootId: string): CommentNode[] {
+  const byTime = [...comments].sort((a, b) => (a.created_at || 0) - (b.created_at || 0));
+  const nodes = new Map<string, CommentNode>(byTime.map(event => [event.id || '', { event, replies: [] }]));
+  const roots: CommentNode[] = [];
+
+  for (const node of nodes.values()) {
+    const parentId = getParentId(node.event);
+    const parent = parentId && parentId !== rootId ? nodes.get(parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Comments whose root scope is the similarity (any version of it), minus those their authors deleted
+ */
+export async function fetchComments(root: CommentRoot, client: NostrClient = nostrClient): Promise<NostrEvent[]> {
+  const filters: NostrFilter[] = [{ kinds: [COMMENT_KIND], '#E': [root.id] }];
+  if (root.address) {
+    filters.push({ kinds: [COMMENT_KIND], '#A': [root.address] });
+  }
+  const comments = (await client.query(filters, { timeout: COMMENT_FETCH_TIMEOUT }))
+    .filter(comment => comment.kind === COMMENT_KIND);
+
+  // NIP-09 deletions pointing at the comments; isDeletedBy only counts their authors' own
+  const commentIds = comments.map(comment => comment.id).filter((id): id is string => !!id);
+  const deletionFilters: NostrFilter[] = [];
+  for (let i = 0; i < commentIds.length; i += MAX_IDS_PER_FILTER) {
+    deletionFilters.push({ kinds: [5], '#e': commentIds.slice(i, i + MAX_IDS_PER_FILTER) });
+  }
+  const deletions = deletionFilters.length > 0
+    ? await client.query(deletionFilters, { timeout: COMMENT_FETCH_TIMEOUT })
+    : [];
+
+  const remaining = comments.filter(comment => !deletions.some(deletion => isDeletedBy(comment, deletion)));
+  console.log(`Found ${remaining.length} comments on ${root.id.slice(0, 8)} (${comments.length - remaining.length} deleted)`);
+  return remaining;
+}
+
+/**
+ * React Query hook for the comments on a similarity; only fetches while `enabled`
+ */
+export function useComments(root: CommentRoot, enabled = true, client: NostrClient = nostrClient) {
+  return useQuery({
+    queryKey: ['comments', getThreadKey(root)],
+    queryFn: () => fetchComments(root, client),
+    enabled: enabled && !!root.id,
+    staleTime: COMMENT_CACHE_TIME,
+  });
+}
+
+/**
+ * NIP-22 tags for a comment on `root`, replying to `parent` (a comment) or to the root itself
+ */
+export function buildCommentTags(root: SimilarityEvent, parent: NostrEvent | null): string[][] {
+  const tags = [
+    ['E', root.id, '', root.pubkey],
+    ['K', String(root.kind)],
+    ['P', root.pubkey],
+  ];
+  if (root.address) {
+    tags.push(['A', root.address]);
+  }
+
+  if (parent) {
+    tags.push(['e', parent.id || '', '', parent.pubkey], ['k', String(COMMENT_KIND)], ['p', parent.pubkey]);
+  } else {
+    tags.push(['e', root.id, '', root.pubkey], ['k', String(root.kind)], ['p', root.pubkey]);
+  }
+  return tags;
+}
+
+/**
+ * Sign and publish a comment with the current signer
+ */
+export async function publishComment(
+  root: SimilarityEvent,
+  parent: NostrEvent | null,
+  content: string,
+  client: NostrClient = nostrClient
+): Promise<NostrEvent> {
+  const text = content.trim();
+  if (!text) {
+    throw new Error("Comment is empty");
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const comment = await client.signEvent({
+    kind: COMMENT_KIND,
+    pubkey: await client.getPublicKey(),
+    created_at: Math.floor(Date.now() / 1000),
+    tags: buildCommentTags(root, parent),
+    content: text,
+  });
+  const result = await client.outbox.send(comment);
+
+  const item = client.outbox.getItem(result.eventId);
+  if (getAcceptedRelays(result).length === 0) {
+    const queued = !!item && getOutboxItemStatus(item) === 'pending';
+    toast({
+      title: queued ? "Comment saved to your outbox" : "No relay accepted your comment",
+      description: queued
+        ? "No relay could be reached. Your comment will be sent when they are back."
+        : describePublishResult(result),
+      variant: queued ? "default" : "destructive",
+    });
+  }
+  return comment;
+}
+
+/**
+ * Hook returning `comment(content, parent)`; the new comment shows up in the thread right away
+ */
+export function usePostComment(root: SimilarityEvent, client: NostrClient = nostrClient) {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (content: string, parent: NostrEvent | null = null): Promise<boolean> => {
+    try {
+      const comment = await publishComment(root, parent, content, client);
+      queryClient.setQueryData<NostrEvent[]>(['comments', getThreadKey(root)], (comments = []) => [...comments, comment]);
+      return true;
+    } catch (error) {
+      console.error("Failed to post comment:", error);
+      toast({
+        title: "Failed to post comment",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [root, client, queryClient]);
+}
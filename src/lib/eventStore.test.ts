@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { getStoredEvents, isDeletedBy, saveEvents } from './eventStore';
+import type { NostrEvent } from './nostr';
+
+// Tests share one database, so each uses its own kind or author
+function event(secretKey: Uint8Array, kind: number, created_at: number, tags: string[][] = []): NostrEvent {
+  return finalizeEvent({ kind, created_at, tags, content: "" }, secretKey);
+}
+
+function deletion(secretKey: Uint8Array, created_at: number, tags: string[][]): NostrEvent {
+  return event(secretKey, 5, created_at, tags);
+}
+
+const ids = (events: NostrEvent[]) => events.map(e => e.id);
+
+describe('eventStore', () => {
+  it('stores events once and returns them newest first', async () => {
+    const key = generateSecretKey();
+    const older = event(key, 201, 1000);
+    const newer = event(key, 201, 2000);
+
+    expect(await saveEvents([older, newer])).toBe(2);
+    expect(await saveEvents([older])).toBe(0);
+    expect(ids(await getStoredEvents({ kinds: [201] }))).toEqual([newer.id, older.id]);
+  });
+
+  it('keeps only the newest version of an addressable event', async () => {
+    const key = generateSecretKey();
+    const first = event(key, 30201, 1000, [['d', 'pair']]);
+    const second = event(key, 30201, 2000, [['d', 'pair']]);
+    const other = event(key, 30201, 1500, [['d', 'other pair']]);
+
+    await saveEvents([second, first, other]);
+
+    expect(ids(await getStoredEvents({ kinds: [30201] }))).toEqual([second.id, other.id]);
+  });
+
+  it('removes deleted events and refuses them when a relay sends them again', async () => {
+    const key = generateSecretKey();
+    const deleted = event(key, 202, 1000);
+    const kept = event(key, 202, 1001);
+    await saveEvents([deleted, kept]);
+
+    await saveEvents([deletion(key, 2000, [['e', deleted.id]])]);
+    expect(await saveEvents([deleted])).toBe(0);
+
+    expect(ids(await getStoredEvents({ kinds: [202] }))).toEqual([kept.id]);
+  });
+
+  it('refuses events whose deletion arrived first', async () => {
+    const key = generateSecretKey();
+    const deleted = event(key, 203, 1000);
+
+    await saveEvents([deletion(key, 2000, [['e', deleted.id]])]);
+
+    expect(await saveEvents([deleted])).toBe(0);
+  });
+
+  it("ignores deletions of other people's events", async () => {
+    const target = event(generateSecretKey(), 204, 1000);
+    await saveEvents([target]);
+
+    await saveEvents([deletion(generateSecretKey(), 2000, [['e', target.id]])]);
+
+    expect(ids(await getStoredEvents({ kinds: [204] }))).toEqual([target.id]);
+  });
+
+  it('deletes an address up to the deletion and accepts later versions', async () => {
+    const key = generateSecretKey();
+    const address = `30202:${getPublicKey(key)}:pair`;
+    await saveEvents([event(key, 30202, 1000, [['d', 'pair']])]);
+
+    await saveEvents([deletion(key, 2000, [['a', address]])]);
+    expect(await saveEvents([event(key, 30202, 1500, [['d', 'pair']])])).toBe(0);
+
+    const republished = event(key, 30202, 3000, [['d', 'pair']]);
+    expect(await saveEvents([republished])).toBe(1);
+    expect(ids(await getStoredEvents({ kinds: [30202] }))).toEqual([republished.id]);
+  });
+
+  it('finds events by ISBN in either form', async () => {
+    const key = generateSecretKey();
+    const similarity = event(key, 205, 1000, [['i', 'isbn:9780141439518']]);
+    await saveEvents([similarity]);
+
+    expect(ids(await getStoredEvents({ kinds: [205], isbn: '0141439513' }))).toEqual([similarity.id]);
+  });
+});
+
+describe('isDeletedBy', () => {
+  const key = generateSecretKey();
+  const address = `30203:${getPublicKey(key)}:pair`;
+
+  it('matches ids and addresses of the same author', () => {
+    const note = event(key, 1, 1000);
+    const version = event(key, 30203, 1000, [['d', 'pair']]);
+
+    expect(isDeletedBy(note, deletion(key, 2000, [['e', note.id]]))).toBe(true);
+    expect(isDeletedBy(version, deletion(key, 2000, [['a', address]]))).toBe(true);
+    expect(isDeletedBy(note, deletion(generateSecretKey(), 2000, [['e', note.id]]))).toBe(false);
+  });
+
+  it('spares versions newer than an address deletion', () => {
+    const version = event(key, 30203, 3000, [['d', 'pair']]);
+    expect(isDeletedBy(version, deletion(key, 2000, [['a', address]]))).toBe(false);
+  });
+});
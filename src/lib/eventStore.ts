@@ -0,0 +1,491 @@
+import { kinds } from 'nostr-tools';
+import type { NostrEvent } from './nostr';
+import type { OutboxItem } from './outbox';
+import { normalizeIsbn } from './isbn';
+
+const DB_NAME = 'similarteia-events';
+const DB_VERSION = 3;
+
+const EVENTS = 'events';
+const TOMBSTONES = 'tombstones';
+const SYNC_STATE = 'syncState';
+const OUTBOX = 'outbox';
+const DISCARDED = 'discarded';
+
+const DELETION_KIND = 5;
+
+/**
+ * An event as persisted, with the fields the indexes are built on
+ */
+interface StoredEvent extends NostrEvent {
+  id: string;
+  created_at: number;
+  // Identifiers from `i` tags; ISBNs as ISBN-13 without the "isbn:" prefix
+  isbns: string[];
+  // `kind:pubkey:d` for replaceable and addressable events, so only the newest version is kept
+  address?: string;
+}
+
+/**
+ * Left behind by a NIP-09 deletion so the deleted event is not stored again
+ * when a relay that missed the deletion sends it later
+ */
+interface Tombstone {
+  // `pubkey:id` for deleted events, the address for deleted replaceable/addressable events
+  key: string;
+  pubkey: string;
+  created_at: number;
+}
+
+/**
+ * An event the store dropped or refused as deleted or superseded
+ * Kept so NIP-77 reconciliation counts it as known instead of fetching it again.
+ */
+export interface DiscardedEvent {
+  id: string;
+  kind: number;
+  created_at: number;
+}
+
+/**
+ * How much of a feed's history the store holds without gaps
+ */
+export interface SyncState {
+  key: string;
+  // Newest created_at fetched from relays; the next sync asks for events since then
+  newest: number;
+  // Everything between `oldest` and `newest` is stored
+  oldest: number;
+  // True once relays returned nothing older than `oldest`
+  complete: boolean;
+}
+
+export interface StoredEventQuery {
+  kinds?: number[];
+  authors?: string[];
+  isbn?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Wrap an IndexedDB request in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Open (and create or upgrade) the event database
+ * Resolves to null where IndexedDB is unavailable, e.g. some private browsing modes
+ */
+function openEventDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  if (typeof indexedDB === 'undefined') {
+    console.warn("IndexedDB is not available; events will not be stored locally");
+    dbPromise = Promise.resolve(null);
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = (upgrade) => {
+      const db = req.result;
+      if (upgrade.oldVersion < 1) {
+        const events = db.createObjectStore(EVENTS, { keyPath: 'id' });
+        events.createIndex('kind', ['kind', 'created_at']);
+        events.createIndex('pubkey', ['pubkey', 'created_at']);
+        events.createIndex('isbn', 'isbns', { multiEntry: true });
+        events.createIndex('created_at', 'created_at');
+        events.createIndex('address', 'address');
+        db.createObjectStore(TOMBSTONES, { keyPath: 'key' });
+        db.createObjectStore(SYNC_STATE, { keyPath: 'key' });
+      }
+      if (upgrade.oldVersion < 2) {
+        db.createObjectStore(OUTBOX, { keyPath: 'id' });
+      }
+      if (upgrade.oldVersion < 3) {
+        const discarded = db.createObjectStore(DISCARDED, { keyPath: 'id' });
+        discarded.createIndex('kind', ['kind', 'created_at']);
+      }
+    };
+
+    req.onsuccess = () => {
+      console.log("Opened local event store");
+      resolve(req.result);
+    };
+
+    req.onerror = () => {
+      console.warn("Failed to open local event store:", req.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Whether events can be persisted in this browser
+ */
+export async function isEventStoreAvailable(): Promise<boolean> {
+  return (await openEventDb()) !== null;
+}
+
+/**
+ * The `kind:pubkey:d` address of a replaceable or addressable event, if it is one
+ */
+export function getEventAddress(event: NostrEvent): string | undefined {
+  if (kinds.isReplaceableKind(event.kind)) {
+    return `${event.kind}:${event.pubkey}:`;
+  }
+  if (kinds.isAddressableKind(event.kind)) {
+    const d = event.tags.find(tag => tag[0] === 'd')?.[1] ?? '';
+    return `${event.kind}:${event.pubkey}:${d}`;
+  }
+  return undefined;
+}
+
+/**
+ * Event ids and addresses a NIP-09 deletion asks to remove
+ * Only targets owned by the deletion's author count, so nobody can delete someone else's events
+ */
+export function getDeletionTargets(deletion: NostrEvent): { ids: string[]; addresses: string[] } {
+  if (deletion.kind !== DELETION_KIND) {
+    return { ids: [], addresses: [] };
+  }
+
+  const ids = deletion.tags.filter(tag => tag[0] === 'e' && tag[1]).map(tag => tag[1]);
+  const addresses = deletion.tags
+    .filter(tag => tag[0] === 'a' && tag[1]?.split(':')[1] === deletion.pubkey)
+    .map(tag => tag[1]);
+
+  return { ids, addresses };
+}
+
+/**
+ * Whether a NIP-09 deletion removes an event
+ * Addresses cover every version up to the deletion's timestamp, like applyDeletion below.
+ */
+export function isDeletedBy(event: NostrEvent, deletion: NostrEvent): boolean {
+  if (event.kind === DELETION_KIND || event.pubkey !== deletion.pubkey) {
+    return false;
+  }
+
+  const { ids, addresses } = getDeletionTargets(deletion);
+  if (event.id && ids.includes(event.id)) {
+    return true;
+  }
+  const address = getEventAddress(event);
+  return !!address && addresses.includes(address) && (event.created_at || 0) <= (deletion.created_at || 0);
+}
+
+function toStoredEvent(event: NostrEvent): StoredEvent | null {
+  if (!event.id || !event.sig) return null;
+
+  const isbns = event.tags
+    .filter(tag => tag[0] === 'i' && tag[1])
+    .map(tag => (tag[1].startsWith('isbn:') ? normalizeIsbn(tag[1].slice('isbn:'.length)) : tag[1]));
+
+  const stored: StoredEvent = {
+    id: event.id,
+    pubkey: event.pubkey,
+    created_at: event.created_at || 0,
+    kind: event.kind,
+    tags: event.tags,
+    content: event.content,
+    sig: event.sig,
+    isbns,
+  };
+
+  const address = getEventAddress(event);
+  if (address) {
+    stored.address = address;
+  }
+  return stored;
+}
+
+function fromStoredEvent(stored: StoredEvent): NostrEvent {
+  const { id, pubkey, created_at, kind, tags, content, sig } = stored;
+  return { id, pubkey, created_at, kind, tags, content, sig };
+}
+
+// Replaceable events keep the newest version; ties go to the lowest id (NIP-01)
+function isNewerVersion(event: StoredEvent, existing: StoredEvent): boolean {
+  if (event.created_at !== existing.created_at) {
+    return event.created_at > existing.created_at;
+  }
+  return event.id < existing.id;
+}
+
+// Remember a dropped or refused event so reconciliation doesn't download it again
+async function discardEvent(discarded: IDBObjectStore, event: StoredEvent) {
+  const record: DiscardedEvent = { id: event.id, kind: event.kind, created_at: event.created_at };
+  await request(discarded.put(record));
+}
+
+async function applyDeletion(events: IDBObjectStore, tombstones: IDBObjectStore, discarded: IDBObjectStore, deletion: StoredEvent) {
+  const { ids, addresses } = getDeletionTargets(deletion);
+
+  for (const id of ids) {
+    const target = await request<StoredEvent | undefined>(events.get(id));
+    if (target && target.pubkey === deletion.pubkey && target.kind !== DELETION_KIND) {
+      console.log(`Removing deleted event ${id} from the local store`);
+      await request(events.delete(id));
+      await discardEvent(discarded, target);
+    }
+    await request(tombstones.put({ key: `${deletion.pubkey}:${id}`, pubkey: deletion.pubkey, created_at: deletion.created_at }));
+  }
+
+  for (const address of addresses) {
+    const targets = await request<StoredEvent[]>(events.index('address').getAll(address));
+    for (const target of targets) {
+      // Deleting an address removes every version up to the deletion's timestamp
+      if (target.created_at <= deletion.created_at) {
+        console.log(`Removing deleted event ${address} from the local store`);
+        await request(events.delete(target.id));
+        await discardEvent(discarded, target);
+      }
+    }
+
+    const existing = await request<Tombstone | undefined>(tombstones.get(address));
+    if (!existing || existing.created_at < deletion.created_at) {
+      await request(tombstones.put({ key: address, pubkey: deletion.pubkey, created_at: deletion.created_at }));
+    }
+  }
+}
+
+// Whether an event was stored; false when it was deleted, replaced or already known
+async function storeEvent(events: IDBObjectStore, tombstones: IDBObjectStore, discarded: IDBObjectStore, event: StoredEvent): Promise<boolean> {
+  if (await request(events.getKey(event.id))) {
+    return false;
+  }
+
+  if (await request(tombstones.getKey(`${event.pubkey}:${event.id}`))) {
+    console.log(`Not storing deleted event ${event.id}`);
+    await discardEvent(discarded, event);
+    return false;
+  }
+
+  if (event.address) {
+    const tombstone = await request<Tombstone | undefined>(tombstones.get(event.address));
+    if (tombstone && event.created_at <= tombstone.created_at) {
+      console.log(`Not storing deleted event ${event.address}`);
+      await discardEvent(discarded, event);
+      return false;
+    }
+
+    const versions = await request<StoredEvent[]>(events.index('address').getAll(event.address));
+    if (versions.some(existing => !isNewerVersion(event, existing))) {
+      await discardEvent(discarded, event);
+      return false;
+    }
+    for (const existing of versions) {
+      await request(events.delete(existing.id));
+      await discardEvent(discarded, existing);
+    }
+  }
+
+  await request(events.put(event));
+
+  if (event.kind === DELETION_KIND) {
+    await applyDeletion(events, tombstones, discarded, event);
+  }
+  return true;
+}
+
+/**
+ * Persist verified events
+ * Keeps only the newest version of replaceable and addressable events, applies
+ * NIP-09 deletions and refuses events that were deleted earlier.
+ * Resolves to the number of events that were new to the store.
+ */
+export async function saveEvents(newEvents: NostrEvent[]): Promise<number> {
+  const db = await openEventDb();
+  if (!db || newEvents.length === 0) return 0;
+
+  const storable = newEvents
+    .map(toStoredEvent)
+    .filter((event): event is StoredEvent => event !== null);
+
+  try {
+    const tx = db.transaction([EVENTS, TOMBSTONES, DISCARDED], 'readwrite');
+    const done = transactionDone(tx);
+    const events = tx.objectStore(EVENTS);
+    const tombstones = tx.objectStore(TOMBSTONES);
+    const discarded = tx.objectStore(DISCARDED);
+
+    let added = 0;
+    for (const event of storable) {
+      if (await storeEvent(events, tombstones, discarded, event)) {
+        added++;
+      }
+    }
+
+    await done;
+    if (added > 0) {
+      console.log(`Stored ${added} new events locally`);
+    }
+    return added;
+  } catch (error) {
+    console.error("Failed to store events:", error);
+    return 0;
+  }
+}
+
+/**
+ * Read stored events, newest first
+ * Uses the kind, author or ISBN index and applies the rest of the query in memory
+ */
+export async function getStoredEvents(query: StoredEventQuery = {}): Promise<NostrEvent[]> {
+  const db = await openEventDb();
+  if (!db) return [];
+
+  const since = query.since ?? 0;
+  const until = query.until ?? Number.MAX_SAFE_INTEGER;
+  // Stored ISBNs are ISBN-13, so an ISBN-10 finds the same events
+  const isbn = query.isbn ? normalizeIsbn(query.isbn) : undefined;
+  const limit = query.limit ?? Infinity;
+
+  try {
+    const tx = db.transaction(EVENTS, 'readonly');
+    const events = tx.objectStore(EVENTS);
+    let candidates: StoredEvent[];
+
+    if (query.kinds?.length) {
+      const perKind = await Promise.all(query.kinds.map(kind => request<StoredEvent[]>(
+        events.index('kind').getAll(IDBKeyRange.bound([kind, since], [kind, until]))
+      )));
+      candidates = perKind.flat();
+    } else if (query.authors?.length) {
+      const perAuthor = await Promise.all(query.authors.map(pubkey => request<StoredEvent[]>(
+        events.index('pubkey').getAll(IDBKeyRange.bound([pubkey, since], [pubkey, until]))
+      )));
+      candidates = perAuthor.flat();
+    } else if (isbn) {
+      candidates = await request<StoredEvent[]>(events.index('isbn').getAll(isbn));
+    } else {
+      candidates = await request<StoredEvent[]>(events.index('created_at').getAll(IDBKeyRange.bound(since, until)));
+    }
+
+    return candidates
+      .filter(event =>
+        event.created_at >= since &&
+        event.created_at <= until &&
+        (!query.kinds?.length || query.kinds.includes(event.kind)) &&
+        (!query.authors?.length || query.authors.includes(event.pubkey)) &&
+        (!isbn || event.isbns.includes(isbn))
+      )
+      .sort((a, b) => b.created_at - a.created_at || (a.id < b.id ? -1 : 1))
+      .slice(0, limit)
+      .map(fromStoredEvent);
+  } catch (error) {
+    console.error("Failed to read stored events:", error);
+    return [];
+  }
+}
+
+/**
+ * Events of these kinds the store dropped or refused since `since`, for NIP-77 reconciliation
+ */
+export async function getDiscardedEvents(kinds: number[], since = 0): Promise<DiscardedEvent[]> {
+  const db = await openEventDb();
+  if (!db) return [];
+
+  try {
+    const tx = db.transaction(DISCARDED, 'readonly');
+    const index = tx.objectStore(DISCARDED).index('kind');
+    const perKind = await Promise.all(kinds.map(kind => request<DiscardedEvent[]>(
+      index.getAll(IDBKeyRange.bound([kind, since], [kind, Number.MAX_SAFE_INTEGER]))
+    )));
+    return perKind.flat();
+  } catch (error) {
+    console.error("Failed to read discarded events:", error);
+    return [];
+  }
+}
+
+export async function getSyncState(key: string): Promise<SyncState | null> {
+  const db = await openEventDb();
+  if (!db) return null;
+
+  try {
+    const tx = db.transaction(SYNC_STATE, 'readonly');
+    return (await request<SyncState | undefined>(tx.objectStore(SYNC_STATE).get(key))) ?? null;
+  } catch (error) {
+    console.error("Failed to read sync state:", error);
+    return null;
+  }
+}
+
+export async function setSyncState(state: SyncState): Promise<void> {
+  const db = await openEventDb();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(SYNC_STATE, 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(SYNC_STATE).put(state);
+    await done;
+  } catch (error) {
+    console.error("Failed to save sync state:", error);
+  }
+}
+
+/**
+ * Signed events waiting in the outbox, oldest first
+ */
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  const db = await openEventDb();
+  if (!db) return [];
+
+  try {
+    const tx = db.transaction(OUTBOX, 'readonly');
+    const items = await request<OutboxItem[]>(tx.objectStore(OUTBOX).getAll());
+    return items.sort((a, b) => a.queuedAt - b.queuedAt);
+  } catch (error) {
+    console.error("Failed to read the outbox:", error);
+    return [];
+  }
+}
+
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+  const db = await openEventDb();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(OUTBOX, 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(OUTBOX).put(item);
+    await done;
+  } catch (error) {
+    console.error("Failed to save outbox item:", error);
+  }
+}
+
+export async function deleteOutboxItem(id: string): Promise<void> {
+  const db = await openEventDb();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(OUTBOX, 'readwrite');
+    const done = transactionDone(tx);
+    tx.objectStore(OUTBOX).delete(id);
+    await done;
+  } catch (error) {
+    console.error("Failed to remove outbox item:", error);
+  }
+}
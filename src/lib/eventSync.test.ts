@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { MockRelay, createInMemoryTransport } from './mockRelay';
+import { NostrClient } from './nostrClient';
+import { getStoredEvents, saveEvents } from './eventStore';
+import { loadOlderFeedPage, syncFeed } from './eventSync';
+import type { RelayInfo } from './relayInfo';
+import type { NostrEvent } from './nostr';
+
+const secretKey = generateSecretKey();
+const now = Math.floor(Date.now() / 1000);
+
+function notes(kind: number, count: number, newest: number): NostrEvent[] {
+  return Array.from({ length: count }, (_, i) =>
+    finalizeEvent({ kind, created_at: newest - i, tags: [], content: `note ${i}` }, secretKey)
+  );
+}
+
+// Each test uses its own relay URL and feed kind, so relay info and sync state don't leak between them
+function createClient(relay: MockRelay, url: string, info: RelayInfo): NostrClient {
+  return new NostrClient({
+    transport: createInMemoryTransport(relay),
+    relays: [{ url, read: true, write: true }],
+    relayInfoLoader: async () => info,
+  });
+}
+
+// Like createClient, and records every REQ sent to the relay
+function createRecordingClient(relay: MockRelay, url: string, reqs: unknown[][]): NostrClient {
+  return new NostrClient({
+    transport: url => {
+      const socket = relay.connect(url);
+      const send = socket.send.bind(socket);
+      socket.send = (data: string) => {
+        const frame = JSON.parse(data);
+        if (frame[0] === "REQ") reqs.push(frame);
+        send(data);
+      };
+      return socket;
+    },
+    relays: [{ url, read: true, write: true }],
+    relayInfoLoader: async () => relay.getInfo(),
+  });
+}
+
+describe('syncFeed', () => {
+  it('pages through a relay whose max_limit is below the sync limit', async () => {
+    const relay = new MockRelay({ negentropy: false, limitation: { max_limit: 3 } });
+    relay.seed(notes(101, 2, now - 1000));
+    const client = createClient(relay, "mock://limited", relay.getInfo());
+    await syncFeed(client, [101], 2);
+
+    const newer = notes(101, 10, now - 10);
+    relay.seed(newer);
+    await syncFeed(client, [101], 2);
+
+    expect(await getStoredEvents({ kinds: [101] })).toHaveLength(12);
+  });
+
+  it('stops paging at a page shorter than the limit', async () => {
+    const relay = new MockRelay({ negentropy: false });
+    relay.seed(notes(102, 2, now - 1000));
+    const reqs: unknown[][] = [];
+    const client = createRecordingClient(relay, "mock://short-page", reqs);
+    await syncFeed(client, [102], 2);
+
+    relay.seed(notes(102, 5, now - 10));
+    reqs.length = 0;
+    await syncFeed(client, [102], 2);
+
+    expect(reqs).toHaveLength(1);
+    expect(await getStoredEvents({ kinds: [102] })).toHaveLength(7);
+  });
+
+  it('pages past a full page of events sharing one timestamp', async () => {
+    const relay = new MockRelay({ negentropy: false, limitation: { max_limit: 3 } });
+    relay.seed(notes(104, 1, now - 1000));
+    const client = createClient(relay, "mock://same-second", relay.getInfo());
+    await syncFeed(client, [104], 2);
+
+    const sameSecond = Array.from({ length: 4 }, (_, i) =>
+      finalizeEvent({ kind: 104, created_at: now - 10, tags: [], content: `same second ${i}` }, secretKey));
+    const older = notes(104, 2, now - 20);
+    relay.seed([...sameSecond, ...older]);
+    await syncFeed(client, [104], 2);
+
+    const stored = (await getStoredEvents({ kinds: [104] })).map(event => event.id);
+    expect(stored).toEqual(expect.arrayContaining(older.map(event => event.id)));
+  });
+
+  it('applies deletions sent since the last sync', async () => {
+    const relay = new MockRelay({ negentropy: false });
+    const [kept, deleted] = notes(103, 2, now - 1000);
+    relay.seed([kept, deleted]);
+    const client = createClient(relay, "mock://deletions", relay.getInfo());
+    await syncFeed(client, [103], 10);
+
+    relay.seed([finalizeEvent({
+      kind: 5,
+      created_at: now - 5,
+      tags: [['e', deleted.id], ['k', '103']],
+      content: "",
+    }, secretKey)]);
+    const page = await syncFeed(client, [103], 10);
+
+    expect(page.events.map(event => event.id)).toEqual([kept.id]);
+  });
+
+  it('does not download deleted events again through negentropy', async () => {
+    // The relay keeps the deleted event, as relays that ignore NIP-09 do
+    const relay = new MockRelay();
+    const [kept, deleted] = notes(106, 2, now - 1000);
+    relay.seed([kept, deleted, finalizeEvent({
+      kind: 5,
+      created_at: now - 900,
+      tags: [['e', deleted.id], ['k', '106']],
+      content: "",
+    }, secretKey)]);
+    const reqs: unknown[][] = [];
+    const client = createRecordingClient(relay, "mock://negentropy-deleted", reqs);
+    await syncFeed(client, [106], 10);
+
+    reqs.length = 0;
+    const page = await syncFeed(client, [106], 10);
+
+    expect(page.events.map(event => event.id)).toEqual([kept.id]);
+    expect(reqs.flatMap(frame => frame.slice(2)).some(filter => 'ids' in (filter as object))).toBe(false);
+  });
+});
+
+describe('loadOlderFeedPage', () => {
+  it('leaves out stored events older than the page the relays sent', async () => {
+    const relay = new MockRelay({ negentropy: false });
+    const feed = notes(105, 4, now - 10);
+    const older = feed.slice(2);
+    relay.seed(feed);
+    // The older notes were deleted, so the relays' next page adds fewer events than asked for
+    relay.seed([finalizeEvent({ kind: 5, created_at: now, tags: [...older.map(event => ['e', event.id]), ['k', '105']], content: "" }, secretKey)]);
+    const client = createClient(relay, "mock://older-page", relay.getInfo());
+    const { until } = await syncFeed(client, [105], 2);
+    // Cached by some other view, far outside the synced range
+    const unrelated = finalizeEvent({ kind: 105, created_at: now - 100000, tags: [], content: "unrelated" }, secretKey);
+    await saveEvents([unrelated]);
+
+    const page = await loadOlderFeedPage(client, [105], 2, until);
+
+    expect(page.events.map(event => event.id)).toEqual([feed[1].id]);
+  });
+});
@@ -0,0 +1,261 @@
+import type { NostrClient, EventPage } from './nostrClient';
+import type { NostrEvent } from './nostr';
+import { QueryError, RelayError } from './relayErrors';
+import {
+  getDiscardedEvents,
+  getStoredEvents,
+  getSyncState,
+  isDeletedBy,
+  isEventStoreAvailable,
+  saveEvents,
+  setSyncState,
+  type SyncState,
+} from './eventStore';
+
+// Most events one incremental sync asks for; getting this many means we were away too long
+const MAX_SYNC_EVENTS = 500;
+// Ids per filter when fetching what negentropy found missing
+const MAX_IDS_PER_FILTER = 100;
+
+const feedKey = (kinds: number[]) => `feed:${kinds.join(',')}`;
+
+// NIP-09 deletions that mention one of the feed's kinds in a `k` tag
+const deletionFilter = (kinds: number[], since: number) => ({ kinds: [5], '#k': kinds.map(String), since });
+
+// Deletions of a page's events, which can only be newer than the page's oldest event
+async function fetchDeletions(client: NostrClient, kinds: number[], page: EventPage): Promise<NostrEvent[]> {
+  if (page.events.length === 0) return [];
+  const oldest = page.events[page.events.length - 1].created_at || 0;
+  return client.query(deletionFilter(kinds, oldest));
+}
+
+// Page without the events a deletion removed, for when there is no local store to apply them
+function withoutDeleted(page: EventPage, deletions: NostrEvent[]): EventPage {
+  return { ...page, events: page.events.filter(event => !deletions.some(deletion => isDeletedBy(event, deletion))) };
+}
+
+// Never move the cursor past now, or a future-dated event would hide everything before it
+const clampToNow = (timestamp: number) => Math.min(timestamp, Math.floor(Date.now() / 1000));
+
+// Cut a newest-first list to a page, with an inclusive cursor like NostrClient.queryPage
+// `olderUntil` is where to continue when the list ran out: null if nothing older exists
+function toPage(events: NostrEvent[], limit: number, olderUntil: number | null): EventPage {
+  const page = events.slice(0, limit);
+  if (page.length < limit) {
+    return { events: page, until: olderUntil };
+  }
+  return { events: page, until: page[page.length - 1].created_at || 0 };
+}
+
+/**
+ * Events of the feed's kinds already in the local store, newest first, for rendering before any relay answers
+ */
+export async function getCachedFeed(kinds: number[], limit: number): Promise<NostrEvent[]> {
+  return getStoredEvents({ kinds, limit });
+}
+
+// First visit, or the stored history has a gap: start over from the newest page
+async function syncFromScratch(client: NostrClient, kinds: number[], limit: number): Promise<SyncState> {
+  const page = await client.queryPage({ kinds }, limit);
+  await saveEvents([...page.events, ...await fetchDeletions(client, kinds, page)]);
+
+  const state: SyncState = {
+    key: feedKey(kinds),
+    newest: clampToNow(page.events[0]?.created_at ?? Math.floor(Date.now() / 1000)),
+    oldest: page.until ?? 0,
+    complete: page.until === null,
+  };
+  await setSyncState(state);
+  return state;
+}
+
+interface RelaySyncResult {
+  events: NostrEvent[];
+  // Paging REQs reached MAX_SYNC_EVENTS, so the relay may have more
+  truncated: boolean;
+}
+
+// Catch up with one relay through NIP-77: reconcile the stored range, then fetch only the missing ids
+async function syncRelayWithNegentropy(
+  client: NostrClient,
+  relayUrl: string,
+  kinds: number[],
+  state: SyncState
+): Promise<RelaySyncResult> {
+  const stored = await getStoredEvents({ kinds, since: state.oldest });
+  // Deleted and superseded versions count as known, or every sync would download them again
+  const discarded = await getDiscardedEvents(kinds, state.oldest);
+  const { needIds } = await client.reconcile(
+    relayUrl,
+    { kinds, since: state.oldest },
+    [...stored.map(event => ({ id: event.id, created_at: event.created_at || 0 })), ...discarded]
+  );
+
+  const filters = [];
+  for (let i = 0; i < needIds.length; i += MAX_IDS_PER_FILTER) {
+    filters.push({ ids: needIds.slice(i, i + MAX_IDS_PER_FILTER) });
+  }
+  const events = await client.query([...filters, deletionFilter(kinds, state.newest)], { relays: [relayUrl] });
+  return { events, truncated: false };
+}
+
+// Catch up with one relay through REQs, paging back with `until` from the newest event
+// The page size is capped at the relay's NIP-11 max_limit, so a short page means there is
+// nothing older. `until` is inclusive and repeats are dropped by id.
+async function syncRelayWithReq(
+  client: NostrClient,
+  relayUrl: string,
+  kinds: number[],
+  state: SyncState
+): Promise<RelaySyncResult> {
+  const info = await client.getRelayInfo(relayUrl);
+  const pageLimit = Math.min(MAX_SYNC_EVENTS, info?.limitation?.max_limit || MAX_SYNC_EVENTS);
+
+  const found = new Map<string, NostrEvent>();
+  const deletions: NostrEvent[] = [];
+  let until: number | undefined;
+  for (;;) {
+    const filter = until === undefined
+      ? { kinds, since: state.newest, limit: pageLimit }
+      : { kinds, since: state.newest, until, limit: pageLimit };
+    // Deletions ride along with the first page
+    const page = await client.query(
+      until === undefined ? [filter, deletionFilter(kinds, state.newest)] : [filter],
+      { relays: [relayUrl] }
+    );
+    deletions.push(...page.filter(event => !kinds.includes(event.kind)));
+
+    const events = page.filter(event => kinds.includes(event.kind));
+    const fresh = events.filter(event => !found.has(event.id));
+    fresh.forEach(event => found.set(event.id, event));
+    if (found.size >= MAX_SYNC_EVENTS) {
+      return { events: [...found.values(), ...deletions], truncated: true };
+    }
+    if (events.length < pageLimit) break;
+
+    const oldest = Math.min(...events.map(event => event.created_at || 0));
+    if (fresh.length === 0) {
+      // A whole page shares one timestamp; REQs can't reach the rest of that second, so move past it
+      console.log(`More than ${pageLimit} events at ${oldest} on ${relayUrl}, skipping to older ones`);
+      until = oldest - 1;
+    } else {
+      // Inclusive, so events sharing the oldest timestamp are not skipped
+      until = oldest;
+    }
+  }
+
+  return { events: [...found.values(), ...deletions], truncated: false };
+}
+
+// Negentropy where the relay supports it, a since-based REQ otherwise
+async function syncRelay(
+  client: NostrClient,
+  relayUrl: string,
+  kinds: number[],
+  state: SyncState
+): Promise<RelaySyncResult> {
+  if (client.supportsNegentropy(relayUrl)) {
+    try {
+      return await syncRelayWithNegentropy(client, relayUrl, kinds, state);
+    } catch (error) {
+      console.log(`Negentropy sync with ${relayUrl} failed, falling back to REQ:`, error);
+    }
+  }
+  return syncRelayWithReq(client, relayUrl, kinds, state);
+}
+
+/**
+ * Bring a feed up to date and return its newest page from the local store
+ * Relays with NIP-77 support reconcile the whole stored range, so only missing ids
+ * are downloaded; other relays are asked for events newer than the last sync (and
+ * deletions of them). Without IndexedDB this is a plain relay query, minus deleted events.
+ */
+export async function syncFeed(client: NostrClient, kinds: number[], limit: number): Promise<EventPage> {
+  if (!(await isEventStoreAvailable())) {
+    const page = await client.queryPage({ kinds }, limit);
+    return withoutDeleted(page, await fetchDeletions(client, kinds, page));
+  }
+
+  let state = await getSyncState(feedKey(kinds));
+
+  if (!state) {
+    console.log(`No local history for kinds ${kinds.join(', ')}, loading the newest page`);
+    state = await syncFromScratch(client, kinds, limit);
+  } else {
+    console.log(`Syncing kinds ${kinds.join(', ')} since ${state.newest}`);
+    const syncState = state;
+    const relayUrls = client.getReadRelays();
+    const results = await Promise.allSettled(relayUrls.map(url => syncRelay(client, url, kinds, syncState)));
+
+    const succeeded = results
+      .filter((result): result is PromiseFulfilledResult<RelaySyncResult> => result.status === 'fulfilled')
+      .map(result => result.value);
+    if (relayUrls.length > 0 && succeeded.length === 0) {
+      throw new QueryError(results.flatMap((result, i) => {
+        const reason = result.status === 'rejected' ? result.reason : null;
+        if (reason instanceof QueryError) return reason.errors;
+        if (reason instanceof RelayError) return [reason];
+        return [new RelayError(relayUrls[i], `error: ${reason?.message || "sync failed"}`)];
+      }));
+    }
+    const newer = succeeded.flatMap(result => result.events);
+
+    if (succeeded.some(result => result.truncated)) {
+      // Relays may have cut the answer short, so the stored history would have a hole
+      console.log(`More than ${MAX_SYNC_EVENTS} new events, starting over from the newest page`);
+      state = await syncFromScratch(client, kinds, limit);
+    } else {
+      await saveEvents(newer);
+      const newest = newer.reduce((max, event) => Math.max(max, event.created_at || 0), state.newest);
+      state = { ...state, newest: clampToNow(newest) };
+      await setSyncState(state);
+      console.log(`Synced ${newer.length} events`);
+    }
+  }
+
+  const events = await getStoredEvents({ kinds, since: state.oldest, limit });
+  return toPage(events, limit, state.complete ? null : state.oldest);
+}
+
+/**
+ * Load the page of a feed at or before `until`
+ * Served from the local store while it holds that part of the history; otherwise
+ * fetched from relays, stored, and the synced range extended.
+ */
+export async function loadOlderFeedPage(
+  client: NostrClient,
+  kinds: number[],
+  limit: number,
+  until: number
+): Promise<EventPage> {
+  const state = await getSyncState(feedKey(kinds));
+  if (!state) {
+    const page = await client.queryPage({ kinds }, limit, until);
+    return withoutDeleted(page, await fetchDeletions(client, kinds, page));
+  }
+
+  const stored = await getStoredEvents({ kinds, since: state.oldest, until, limit });
+  if (stored.length >= limit || state.complete) {
+    return toPage(stored, limit, state.complete ? null : state.oldest);
+  }
+
+  // Past the stored range; relays fill in from the oldest stored event downwards
+  const fetchUntil = Math.min(until, state.oldest);
+  console.log(`Loading kinds ${kinds.join(', ')} until ${fetchUntil} from relays`);
+  const page = await client.queryPage({ kinds }, limit, fetchUntil);
+  await saveEvents([...page.events, ...await fetchDeletions(client, kinds, page)]);
+
+  // Only extend the range when it stays contiguous with what is already stored
+  if (fetchUntil === state.oldest) {
+    await setSyncState({
+      ...state,
+      oldest: page.until ?? 0,
+      complete: page.until === null,
+    });
+  }
+
+  // Stop where the relays' page ended; stored events older than that may have gaps before them
+  const events = await getStoredEvents({ kinds, since: page.until ?? 0, until, limit });
+  return toPage(events, limit, page.until);
+}
+
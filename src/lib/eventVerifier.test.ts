@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { getVerificationStats, verifyNostrEvent } from './eventVerifier';
+import type { NostrEvent } from './nostr';
+
+const secretKey = generateSecretKey();
+
+// Plain JSON, as events arrive from a relay (finalizeEvent also marks them as verified)
+function signed(content: string): NostrEvent {
+  return JSON.parse(JSON.stringify(finalizeEvent({ kind: 1, created_at: 1000, tags: [], content }, secretKey)));
+}
+
+describe('verifyNostrEvent', () => {
+  it('accepts correctly signed events', async () => {
+    expect(await verifyNostrEvent(signed("real"))).toBe(true);
+  });
+
+  it('rejects a bad signature and counts it for the relay', async () => {
+    const event = signed("real");
+    const forged = { ...event, sig: signed("other").sig };
+
+    expect(await verifyNostrEvent(forged, "wss://bad.relay")).toBe(false);
+    expect(getVerificationStats().rejectedByRelay["wss://bad.relay"]).toBe(1);
+  });
+
+  it('rejects events whose id does not match their content', async () => {
+    expect(await verifyNostrEvent({ ...signed("original"), content: "changed" })).toBe(false);
+  });
+
+  it('rejects malformed events without verifying them', async () => {
+    const { sig: _sig, ...unsigned } = signed("unsigned");
+    expect(await verifyNostrEvent(unsigned)).toBe(false);
+  });
+
+  it('rejects an altered copy of an event that was already verified', async () => {
+    const event = signed("the real similarity");
+    expect(await verifyNostrEvent(event)).toBe(true);
+
+    for (const change of [{ content: "spoofed" }, { kind: 31729 }, { tags: [['t', 'spoofed']] }, { created_at: 2000 }]) {
+      expect(await verifyNostrEvent({ ...event, ...change })).toBe(false);
+    }
+  });
+
+  it('rejects an altered copy that arrives while the real one is being verified', async () => {
+    const event = signed("in flight");
+
+    const [real, forged] = await Promise.all([
+      verifyNostrEvent(event),
+      verifyNostrEvent({ ...event, content: "spoofed" }),
+    ]);
+
+    expect(real).toBe(true);
+    expect(forged).toBe(false);
+  });
+});
+
+// Stand-ins for Web Workers that break in the ways a real one can
+class ErroringWorker {
+  onmessage: ((message: unknown) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onmessageerror: ((error: unknown) => void) | null = null;
+  postMessage() {
+    setTimeout(() => this.onerror?.(new Error("failed to load")), 0);
+  }
+  terminate() {}
+}
+
+class UnclonableWorker extends ErroringWorker {
+  postMessage() {
+    throw new Error("DataCloneError");
+  }
+}
+
+class SilentWorker extends ErroringWorker {
+  postMessage() {}
+}
+
+describe('verifyNostrEvent without a working worker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.resetModules();
+  });
+
+  // A fresh copy of the module, so it creates its worker from the stubbed global
+  async function loadVerifier(WorkerStub: unknown) {
+    vi.resetModules();
+    vi.stubGlobal('Worker', WorkerStub);
+    return import('./eventVerifier');
+  }
+
+  it('falls back to the main thread when the worker errors', async () => {
+    const { verifyNostrEvent: verify } = await loadVerifier(ErroringWorker);
+
+    expect(await verify(signed("first"))).toBe(true);
+    expect(await verify({ ...signed("second"), sig: signed("x").sig })).toBe(false);
+  });
+
+  it('falls back to the main thread when posting to the worker throws', async () => {
+    const { verifyNostrEvent: verify } = await loadVerifier(UnclonableWorker);
+
+    expect(await verify(signed("first"))).toBe(true);
+  });
+
+  it('gives up on a worker that never answers', async () => {
+    vi.useFakeTimers();
+    const { verifyNostrEvent: verify } = await loadVerifier(SilentWorker);
+
+    const result = verify(signed("first"));
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(await result).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { getEventHash, verifyEvent, type Event } from 'nostr-tools';
+import type { NostrEvent } from './nostr';
+
+export interface VerificationStats {
+  verified: number;
+  rejected: number;
+  // Rejected events per relay URL
+  rejectedByRelay: Record<string, number>;
+}
+
+interface PendingBatch {
+  events: Event[];
+  resolvers: ((valid: boolean) => void)[];
+}
+
+// A worker that takes longer than this to answer a batch is treated as broken
+const WORKER_TIMEOUT = 10000;
+
+// `hash:sig` pairs that already checked out, so copies from other relays are not verified again
+// The hash is recomputed from each copy, so a relay can't reuse a real id and sig for altered content
+const MAX_VERIFIED_CACHE = 5000;
+const verifiedIds = new Set<string>();
+const inFlight = new Map<string, Promise<boolean>>();
+
+const stats: VerificationStats = { verified: 0, rejected: 0, rejectedByRelay: {} };
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextBatchId = 1;
+let queued: PendingBatch | null = null;
+const batches = new Map<number, PendingBatch>();
+let workerTimer: ReturnType<typeof setTimeout> | null = null;
+
+function isWellFormed(event: NostrEvent): boolean {
+  return typeof event?.id === 'string'
+    && typeof event.pubkey === 'string'
+    && typeof event.sig === 'string'
+    && typeof event.kind === 'number'
+    && typeof event.created_at === 'number'
+    && typeof event.content === 'string'
+    && Array.isArray(event.tags);
+}
+
+// The id the event's fields hash to; null when they can't be serialized
+function computeId(event: NostrEvent): string | null {
+  try {
+    return getEventHash(event as Event);
+  } catch {
+    return null;
+  }
+}
+
+function verifyInline(event: Event): boolean {
+  try {
+    return verifyEvent(event);
+  } catch {
+    return false;
+  }
+}
+
+// Restart the answer deadline while the worker owes batches
+function watchWorker(): void {
+  if (workerTimer) clearTimeout(workerTimer);
+  workerTimer = batches.size > 0
+    ? setTimeout(() => failWorker(new Error(`no answer within ${WORKER_TIMEOUT}ms`)), WORKER_TIMEOUT)
+    : null;
+}
+
+// Settle every batch the worker still owes with inline verification, and stop using it
+function failWorker(error: unknown): void {
+  console.warn("Signature worker failed, verifying on the main thread:", error);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  if (workerTimer) clearTimeout(workerTimer);
+  workerTimer = null;
+
+  for (const batch of batches.values()) {
+    batch.events.forEach((event, index) => batch.resolvers[index](verifyInline(event)));
+  }
+  batches.clear();
+}
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('./verifyWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (message: MessageEvent<{ batchId: number; results: boolean[] }>) => {
+      const batch = batches.get(message.data.batchId);
+      if (!batch) return;
+      batches.delete(message.data.batchId);
+      watchWorker();
+      batch.resolvers.forEach((resolve, index) => resolve(message.data.results[index] === true));
+    };
+    worker.onerror = failWorker;
+    worker.onmessageerror = failWorker;
+  } catch (error) {
+    failWorker(error);
+  }
+
+  return worker;
+}
+
+// Send everything queued during this tick to the worker in one message
+function flushQueue(): void {
+  const batch = queued;
+  queued = null;
+  if (!batch) return;
+
+  const target = getWorker();
+  if (!target) {
+    batch.events.forEach((event, index) => batch.resolvers[index](verifyInline(event)));
+    return;
+  }
+
+  const batchId = nextBatchId++;
+  batches.set(batchId, batch);
+  try {
+    target.postMessage({ batchId, events: batch.events });
+    watchWorker();
+  } catch (error) {
+    failWorker(error);
+  }
+}
+
+function enqueue(event: Event): Promise<boolean> {
+  return new Promise(resolve => {
+    if (!queued) {
+      queued = { events: [], resolvers: [] };
+      setTimeout(flushQueue, 0);
+    }
+    queued.events.push(event);
+    queued.resolvers.push(resolve);
+  });
+}
+
+function rememberVerified(id: string): void {
+  if (verifiedIds.size >= MAX_VERIFIED_CACHE) {
+    // Sets iterate in insertion order, so this drops the oldest id
+    verifiedIds.delete(verifiedIds.values().next().value);
+  }
+  verifiedIds.add(id);
+}
+
+/**
+ * Recompute an event's id and check its Schnorr signature
+ * Runs in a Web Worker when available; rejected events are counted per relay
+ */
+export async function verifyNostrEvent(event: NostrEvent, relayUrl?: string): Promise<boolean> {
+  if (!isWellFormed(event)) {
+    recordRejection(relayUrl);
+    return false;
+  }
+
+  // Checked here, before the cache: an altered copy of a verified event keeps its id and sig
+  const hash = computeId(event);
+  if (hash !== event.id) {
+    console.warn(`Dropped event ${event.id} whose id does not match its content from ${relayUrl || 'unknown relay'}`);
+    recordRejection(relayUrl);
+    return false;
+  }
+
+  const key = `${hash}:${event.sig}`;
+  if (verifiedIds.has(key)) return true;
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    // Only plain fields go to the worker; anything extra would fail to clone
+    const { id, pubkey, created_at, kind, tags, content, sig } = event;
+    pending = enqueue({ id, pubkey, created_at, kind, tags, content, sig });
+    inFlight.set(key, pending);
+    pending.then(valid => {
+      inFlight.delete(key);
+      if (valid) {
+        stats.verified++;
+        rememberVerified(key);
+      }
+    });
+  }
+
+  const valid = await pending;
+  if (!valid) {
+    console.warn(`Dropped event ${event.id} with an invalid id or signature from ${relayUrl || 'unknown relay'}`);
+    recordRejection(relayUrl);
+  }
+  return valid;
+}
+
+function recordRejection(relayUrl?: string): void {
+  stats.rejected++;
+  if (relayUrl) {
+    stats.rejectedByRelay[relayUrl] = (stats.rejectedByRelay[relayUrl] || 0) + 1;
+  }
+}
+
+/**
+ * Counts of verified and rejected events since the page loaded
+ */
+export function getVerificationStats(): VerificationStats {
+  return { ...stats, rejectedByRelay: { ...stats.rejectedByRelay } };
+}
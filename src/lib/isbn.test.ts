@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidIsbn,
+  isValidIsbn10,
+  isValidIsbn13,
+  isbn10To13,
+  isbn13To10,
+  isSameIsbn,
+  normalizeIsbn,
+  stripIsbn,
+  toIsbn13,
+} from './isbn';
+
+describe('isbn', () => {
+  it('strips hyphens and spaces', () => {
+    expect(stripIsbn("978-0-14-143951-8")).toBe("9780141439518");
+    expect(stripIsbn("0 8044 2957 x")).toBe("080442957X");
+  });
+
+  it('checks ISBN-10 check digits, including X', () => {
+    expect(isValidIsbn10("0141439513")).toBe(true);
+    expect(isValidIsbn10("080442957X")).toBe(true);
+    expect(isValidIsbn10("0141439514")).toBe(false);
+    expect(isValidIsbn10("014143951")).toBe(false);
+  });
+
+  it('checks ISBN-13 check digits and the 978/979 prefix', () => {
+    expect(isValidIsbn13("9780141439518")).toBe(true);
+    expect(isValidIsbn13("9780141439519")).toBe(false);
+    // Valid EAN-13, but not a book
+    expect(isValidIsbn13("4006381333931")).toBe(false);
+  });
+
+  it('accepts either form with separators', () => {
+    expect(isValidIsbn("0-14-143951-3")).toBe(true);
+    expect(isValidIsbn("978-0-14-143951-8")).toBe(true);
+    expect(isValidIsbn("1234567890")).toBe(false);
+  });
+
+  it('converts between ISBN-10 and ISBN-13', () => {
+    expect(isbn10To13("0141439513")).toBe("9780141439518");
+    expect(isbn13To10("9780141439518")).toBe("0141439513");
+    expect(isbn10To13("0141439514")).toBeNull();
+  });
+
+  it('has no ISBN-10 for 979 ISBNs', () => {
+    expect(isbn13To10("9791032305690")).toBeNull();
+  });
+
+  it('normalizes valid ISBNs to ISBN-13 and leaves invalid ones stripped', () => {
+    expect(toIsbn13("0-14-143951-3")).toBe("9780141439518");
+    expect(toIsbn13("1234567890")).toBeNull();
+    expect(normalizeIsbn("0-14-143951-3")).toBe("9780141439518");
+    expect(normalizeIsbn("123-456-789-0")).toBe("1234567890");
+  });
+
+  it('treats both forms of an ISBN as the same book', () => {
+    expect(isSameIsbn("0141439513", "978-0141439518")).toBe(true);
+    expect(isSameIsbn("0141439513", "9780141439662")).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * ISBN validation and canonicalization
+ * Books are identified by ISBN-13: an ISBN-10 and the ISBN-13 it converts to
+ * (e.g. "0141439513" and "9780141439518") are the same book.
+ */
+
+/**
+ * Strip the hyphens and spaces people (and some catalogues) put into ISBNs
+ */
+export function stripIsbn(isbn: string): string {
+  return isbn.replace(/[-\s]/g, '').toUpperCase();
+}
+
+function isbn10CheckDigit(first9: string): string {
+  const sum = [...first9].reduce((total, char, i) => total + Number(char) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce((total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Whether a stripped string is an ISBN-10 with a valid check digit
+ */
+export function isValidIsbn10(isbn: string): boolean {
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+}
+
+/**
+ * Whether a stripped string is an ISBN-13 with a valid check digit
+ */
+export function isValidIsbn13(isbn: string): boolean {
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+export function isValidIsbn(isbn: string): boolean {
+  const stripped = stripIsbn(isbn);
+  return isValidIsbn10(stripped) || isValidIsbn13(stripped);
+}
+
+/**
+ * The ISBN-13 of an ISBN-10, or null when it isn't a valid ISBN-10
+ */
+export function isbn10To13(isbn: string): string | null {
+  const stripped = stripIsbn(isbn);
+  if (!isValidIsbn10(stripped)) return null;
+  const first12 = `978${stripped.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * The ISBN-10 of an ISBN-13, or null when there is none
+ * Only 978 ISBNs have one; 979 ISBNs were never issued as ISBN-10.
+ */
+export function isbn13To10(isbn: string): string | null {
+  const stripped = stripIsbn(isbn);
+  if (!isValidIsbn13(stripped) || !stripped.startsWith('978')) return null;
+  const first9 = stripped.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
+
+/**
+ * The ISBN-13 of a valid ISBN-10 or ISBN-13, or null for anything else
+ */
+export function toIsbn13(isbn: string): string | null {
+  const stripped = stripIsbn(isbn);
+  if (isValidIsbn13(stripped)) return stripped;
+  return isbn10To13(stripped);
+}
+
+/**
+ * The form ISBNs are published, compared and cached in: the ISBN-13 when the
+ * ISBN is valid, otherwise just stripped so validation can still report it
+ */
+export function normalizeIsbn(isbn: string): string {
+  return toIsbn13(isbn) ?? stripIsbn(isbn);
+}
+
+/**
+ * Whether two ISBNs, in any form, are the same book
+ */
+export function isSameIsbn(a: string, b: string): boolean {
+  return normalizeIsbn(a) === normalizeIsbn(b);
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { MockRelay, MOCK_RELAY_URL, createInMemoryTransport } from './mockRelay';
+import { NostrClient } from './nostrClient';
+import type { NostrEvent } from './nostr';
+
+const secretKey = generateSecretKey();
+
+// Plain JSON, as events arrive from a relay (finalizeEvent also marks them as verified)
+function signed(created_at: number, tags: string[][] = [], content = "hello"): NostrEvent {
+  return JSON.parse(JSON.stringify(finalizeEvent({ kind: 1, created_at, tags, content }, secretKey)));
+}
+
+function createClient(relay: MockRelay): NostrClient {
+  return new NostrClient({
+    transport: createInMemoryTransport(relay),
+    relays: [{ url: MOCK_RELAY_URL, read: true, write: true }],
+    relayInfoLoader: async () => relay.getInfo(),
+  });
+}
+
+// Frames the relay sends to a raw connection
+function openRawSocket(relay: MockRelay) {
+  const socket = relay.connect();
+  const frames: unknown[][] = [];
+  socket.onmessage = (message) => frames.push(JSON.parse(String(message.data)));
+  const opened = new Promise<void>(resolve => { socket.onopen = () => resolve(); });
+  return { socket, frames, opened };
+}
+
+const nextFrames = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('MockRelay', () => {
+  let relay: MockRelay;
+  let client: NostrClient;
+  const events = [
+    signed(1000, [['t', 'books']]),
+    signed(2000, [['t', 'films']]),
+    signed(3000, [['t', 'books']]),
+  ];
+
+  beforeEach(() => {
+    relay = new MockRelay();
+    relay.seed(events);
+    client = createClient(relay);
+  });
+
+  it('answers a REQ with stored events, then EOSE', async () => {
+    const { socket, frames, opened } = openRawSocket(relay);
+    await opened;
+    socket.send(JSON.stringify(["REQ", "sub1", { kinds: [1] }]));
+    await nextFrames();
+
+    expect(frames.map(frame => frame[0])).toEqual(["EVENT", "EVENT", "EVENT", "EOSE"]);
+    expect(frames[0][2]).toEqual(events[2]);
+  });
+
+  it('closes REQs with malformed filters', async () => {
+    const { socket, frames, opened } = openRawSocket(relay);
+    await opened;
+    socket.send(JSON.stringify(["REQ", "sub1", "not a filter"]));
+    await nextFrames();
+
+    expect(frames).toEqual([["CLOSED", "sub1", "invalid: filters must be objects"]]);
+  });
+
+  it('resolves queries at EOSE, newest first', async () => {
+    const started = Date.now();
+    const result = await client.query({ kinds: [1] }, { timeout: 5000 });
+
+    expect(result.map(event => event.created_at)).toEqual([3000, 2000, 1000]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('applies limit, since and tag filters', async () => {
+    expect(await client.query({ kinds: [1], limit: 2 })).toEqual([events[2], events[1]]);
+    expect(await client.query({ kinds: [1], since: 2000 })).toEqual([events[2], events[1]]);
+    expect(await client.query({ kinds: [1], '#t': ['books'] })).toEqual([events[2], events[0]]);
+  });
+
+  it('caps limit at the announced max_limit', async () => {
+    const limited = new MockRelay({ limitation: { max_limit: 1 } });
+    limited.seed(events);
+
+    expect(await createClient(limited).query({ kinds: [1] })).toEqual([events[2]]);
+  });
+
+  it('accepts valid events with OK and stores them', async () => {
+    const event = signed(4000);
+    const result = await client.publish(event);
+
+    expect(result.relays).toEqual([expect.objectContaining({ url: MOCK_RELAY_URL, status: 'accepted' })]);
+    expect(relay.getEvents()[0].id).toBe(event.id);
+  });
+
+  it('reports duplicates as accepted', async () => {
+    const result = await client.publish(events[0]);
+
+    expect(result.relays[0].status).toBe('accepted');
+    expect(result.relays[0].message).toMatch(/^duplicate:/);
+  });
+
+  it('rejects events with a bad signature', async () => {
+    const forged = { ...signed(4000), content: "changed after signing" };
+    const result = await client.publish(forged);
+
+    expect(result.relays[0]).toMatchObject({ status: 'rejected', prefix: 'invalid' });
+    expect(relay.getEvents()).toHaveLength(3);
+  });
+
+  it('sends newly published events to live subscriptions', async () => {
+    const received: NostrEvent[] = [];
+    let close: () => void;
+    await new Promise<void>(resolve => {
+      close = client.pool.subscribe([{ kinds: [1], since: 3500 }], {
+        onEvent: event => received.push(event),
+        onEose: resolve,
+      });
+    });
+
+    const event = signed(4000);
+    await client.publish(event);
+    await nextFrames();
+
+    expect(received).toEqual([event]);
+    close();
+  });
+});
@@ -0,0 +1,446 @@
+import { kinds, matchFilter, verifyEvent, type Event } from 'nostr-tools';
+import type { NostrEvent } from './nostr';
+import type { NostrFilter } from './relayPool';
+import type { NostrClient } from './nostrClient';
+import { Negentropy, NegentropyStorage } from './negentropy';
+import type { RelayInfo, RelayLimitation } from './relayInfo';
+import {
+  SOCKET_CONNECTING as CONNECTING,
+  SOCKET_OPEN as OPEN,
+  SOCKET_CLOSING as CLOSING,
+  SOCKET_CLOSED as CLOSED,
+  type Transport,
+  type TransportSocket,
+} from './nostrTransport';
+
+export const MOCK_RELAY_URL = "mock://relay";
+
+export interface MockRelayOptions {
+  // Delay in milliseconds before each frame is delivered, to mimic the network
+  latency?: number;
+  // Reject events whose id or signature does not check out, like a real relay
+  verifySignatures?: boolean;
+  // Answer NIP-77 NEG-OPEN; when off, NEG-OPEN gets a NOTICE like on relays without it
+  negentropy?: boolean;
+  // NIP-11 limits to announce and enforce (max_message_length, max_subscriptions, max_filters, max_limit)
+  limitation?: RelayLimitation;
+  // Send a NIP-42 challenge on connect and refuse REQs and EVENTs until the client authenticates
+  authRequired?: boolean;
+}
+
+const MAX_SUBSCRIPTION_ID_LENGTH = 64;
+
+/**
+ * The client side of a connection to a MockRelay
+ */
+export class MockRelaySocket implements TransportSocket {
+  readonly url: string;
+  readyState = CONNECTING;
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((message: { data: unknown }) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  // Subscriptions opened on this connection, by id
+  readonly subscriptions = new Map<string, NostrFilter[]>();
+  // Open NIP-77 reconciliations, by subscription id
+  readonly negentropySessions = new Map<string, Negentropy>();
+  // NIP-42 challenge for this connection, and who answered it
+  readonly challenge = Math.random().toString(36).slice(2);
+  authenticatedAs: string | null = null;
+  private relay: MockRelay;
+
+  constructor(relay: MockRelay, url: string) {
+    this.relay = relay;
+    this.url = url;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== OPEN) {
+      throw new Error("MockRelaySocket is not open");
+    }
+    this.relay.receive(this, data);
+  }
+
+  close(): void {
+    if (this.readyState === CLOSING || this.readyState === CLOSED) return;
+    this.readyState = CLOSING;
+    this.relay.disconnect(this);
+  }
+
+  /** @internal Called by the relay */
+  open(): void {
+    if (this.readyState !== CONNECTING) return;
+    this.readyState = OPEN;
+    this.onopen?.({ type: 'open' });
+  }
+
+  /** @internal Called by the relay */
+  deliver(frame: unknown[]): void {
+    if (this.readyState !== OPEN) return;
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  /** @internal Called by the relay */
+  finishClose(): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.subscriptions.clear();
+    this.negentropySessions.clear();
+    this.onclose?.({ type: 'close' });
+  }
+}
+
+/**
+ * In-process NIP-01 relay for development and tests
+ * Stores events in memory and answers REQ/EVENT/CLOSE with EVENT/EOSE/OK/NOTICE/CLOSED,
+ * and NEG-OPEN/NEG-MSG/NEG-CLOSE (NIP-77) with NEG-MSG/NEG-ERR; with `authRequired`
+ * it also sends a NIP-42 challenge and answers AUTH with OK
+ */
+export class MockRelay {
+  private events = new Map<string, NostrEvent>();
+  private sockets = new Set<MockRelaySocket>();
+  private latency: number;
+  private verifySignatures: boolean;
+  private negentropy: boolean;
+  private limitation: RelayLimitation;
+  private authRequired: boolean;
+
+  constructor(options: MockRelayOptions = {}) {
+    this.latency = options.latency ?? 0;
+    this.verifySignatures = options.verifySignatures ?? true;
+    this.negentropy = options.negentropy ?? true;
+    this.limitation = options.limitation ?? {};
+    this.authRequired = options.authRequired ?? false;
+  }
+
+  /**
+   * The relay's NIP-11 information document
+   */
+  getInfo(): RelayInfo {
+    return {
+      name: "SimilarTeia mock relay",
+      description: "In-memory relay for development",
+      software: "similarteia-mock-relay",
+      supported_nips: this.negentropy ? [1, 9, 11, 77] : [1, 9, 11],
+      limitation: this.limitation,
+    };
+  }
+
+  /**
+   * Open a client connection
+   */
+  connect(url: string = MOCK_RELAY_URL): TransportSocket {
+    const socket = new MockRelaySocket(this, url);
+    this.sockets.add(socket);
+    this.later(() => socket.open());
+    if (this.authRequired) {
+      this.send(socket, ["AUTH", socket.challenge]);
+    }
+    return socket;
+  }
+
+  /**
+   * Store events directly, without OK frames or signature checks
+   */
+  seed(events: NostrEvent[]): void {
+    events.forEach(event => this.store(event));
+  }
+
+  /**
+   * Every stored event, newest first
+   */
+  getEvents(): NostrEvent[] {
+    return sortNewestFirst([...this.events.values()]);
+  }
+
+  reset(): void {
+    this.events.clear();
+  }
+
+  /**
+   * Drop every open connection, as if the relay restarted
+   */
+  disconnectAll(): void {
+    [...this.sockets].forEach(socket => this.disconnect(socket));
+  }
+
+  /** @internal */
+  disconnect(socket: MockRelaySocket): void {
+    this.sockets.delete(socket);
+    this.later(() => socket.finishClose());
+  }
+
+  /** @internal Handle a frame sent by a client */
+  receive(socket: MockRelaySocket, data: string): void {
+    if (this.limitation.max_message_length && new TextEncoder().encode(data).length > this.limitation.max_message_length) {
+      this.send(socket, ["NOTICE", "invalid: message is too large"]);
+      return;
+    }
+
+    let frame: unknown;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      this.send(socket, ["NOTICE", "error: could not parse message"]);
+      return;
+    }
+
+    if (!Array.isArray(frame) || typeof frame[0] !== 'string') {
+      this.send(socket, ["NOTICE", "error: messages must be JSON arrays"]);
+      return;
+    }
+
+    switch (frame[0]) {
+      case "REQ":
+        this.handleReq(socket, frame[1], frame.slice(2));
+        break;
+      case "EVENT":
+        this.handleEvent(socket, frame[1]);
+        break;
+      case "AUTH":
+        this.handleAuth(socket, frame[1]);
+        break;
+      case "CLOSE":
+        if (typeof frame[1] === 'string') {
+          socket.subscriptions.delete(frame[1]);
+        }
+        break;
+      case "NEG-OPEN":
+      case "NEG-MSG":
+      case "NEG-CLOSE":
+        if (this.negentropy) {
+          this.handleNegentropy(socket, frame);
+          break;
+        }
+      // falls through
+      default:
+        this.send(socket, ["NOTICE", `error: unsupported message type ${frame[0]}`]);
+    }
+  }
+
+  private handleReq(socket: MockRelaySocket, subscriptionId: unknown, filters: unknown[]): void {
+    if (typeof subscriptionId !== 'string' || subscriptionId.length === 0) {
+      this.send(socket, ["NOTICE", "invalid: subscription id must be a non-empty string"]);
+      return;
+    }
+    if (subscriptionId.length > MAX_SUBSCRIPTION_ID_LENGTH) {
+      this.send(socket, ["CLOSED", subscriptionId, "invalid: subscription id is too long"]);
+      return;
+    }
+    if (filters.length === 0 || !filters.every(filter => filter && typeof filter === 'object' && !Array.isArray(filter))) {
+      this.send(socket, ["CLOSED", subscriptionId, "invalid: filters must be objects"]);
+      return;
+    }
+
+    if (this.authRequired && !socket.authenticatedAs) {
+      this.send(socket, ["CLOSED", subscriptionId, "auth-required: this relay only serves authenticated users"]);
+      return;
+    }
+
+    const { max_filters, max_subscriptions, max_limit } = this.limitation;
+    if (max_filters && filters.length > max_filters) {
+      this.send(socket, ["CLOSED", subscriptionId, `invalid: at most ${max_filters} filters per REQ`]);
+      return;
+    }
+    if (max_subscriptions && !socket.subscriptions.has(subscriptionId) && socket.subscriptions.size >= max_subscriptions) {
+      this.send(socket, ["CLOSED", subscriptionId, `blocked: at most ${max_subscriptions} subscriptions per connection`]);
+      return;
+    }
+
+    // A REQ with an existing id replaces that subscription
+    const subscriptionFilters = (filters as NostrFilter[]).map(filter =>
+      max_limit && (filter.limit === undefined || filter.limit > max_limit) ? { ...filter, limit: max_limit } : filter
+    );
+    socket.subscriptions.set(subscriptionId, subscriptionFilters);
+
+    const stored = this.getEvents();
+    const sent = new Set<string>();
+    for (const filter of subscriptionFilters) {
+      const matches = stored.filter(event => matchFilter(filter, event as Event));
+      const limited = filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+      for (const event of limited) {
+        if (sent.has(event.id)) continue;
+        sent.add(event.id);
+        this.send(socket, ["EVENT", subscriptionId, event]);
+      }
+    }
+
+    this.send(socket, ["EOSE", subscriptionId]);
+  }
+
+  private async handleNegentropy(socket: MockRelaySocket, frame: unknown[]): Promise<void> {
+    const [type, subscriptionId] = frame;
+    if (typeof subscriptionId !== 'string' || subscriptionId.length === 0) {
+      this.send(socket, ["NOTICE", `invalid: ${type} without a subscription id`]);
+      return;
+    }
+
+    if (type === "NEG-CLOSE") {
+      socket.negentropySessions.delete(subscriptionId);
+      return;
+    }
+
+    let negentropy = socket.negentropySessions.get(subscriptionId);
+    let message = frame[2];
+    if (type === "NEG-OPEN") {
+      const filter = frame[2] as NostrFilter;
+      message = frame[3];
+      if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+        this.send(socket, ["NEG-ERR", subscriptionId, "invalid: filter must be an object"]);
+        return;
+      }
+      const matches = this.getEvents().filter(event => matchFilter(filter, event as Event));
+      negentropy = new Negentropy(new NegentropyStorage(
+        matches.map(event => ({ id: event.id, created_at: event.created_at || 0 }))
+      ));
+      // A NEG-OPEN with an existing id replaces that reconciliation
+      socket.negentropySessions.set(subscriptionId, negentropy);
+    } else if (!negentropy) {
+      this.send(socket, ["NEG-ERR", subscriptionId, "closed: no open negentropy session with this id"]);
+      return;
+    }
+
+    try {
+      const { output } = await negentropy.reconcile(String(message));
+      if (socket.negentropySessions.get(subscriptionId) !== negentropy) return;
+      this.send(socket, ["NEG-MSG", subscriptionId, output]);
+    } catch (error) {
+      socket.negentropySessions.delete(subscriptionId);
+      this.send(socket, ["NEG-ERR", subscriptionId, `error: ${error instanceof Error ? error.message : "bad message"}`]);
+    }
+  }
+
+  private handleEvent(socket: MockRelaySocket, event: NostrEvent): void {
+    if (!event || typeof event.id !== 'string') {
+      this.send(socket, ["NOTICE", "invalid: EVENT without an event"]);
+      return;
+    }
+
+    if (this.verifySignatures && !isValidEvent(event)) {
+      this.send(socket, ["OK", event.id, false, "invalid: event id or signature is wrong"]);
+      return;
+    }
+
+    if (this.authRequired && !socket.authenticatedAs) {
+      this.send(socket, ["OK", event.id, false, "auth-required: this relay only accepts events from authenticated users"]);
+      return;
+    }
+
+    if (this.events.has(event.id)) {
+      this.send(socket, ["OK", event.id, true, "duplicate: already have this event"]);
+      return;
+    }
+
+    if (!kinds.isEphemeralKind(event.kind) && !this.store(event)) {
+      this.send(socket, ["OK", event.id, true, "duplicate: have a newer version of this event"]);
+      return;
+    }
+
+    this.send(socket, ["OK", event.id, true, ""]);
+    this.broadcast(event);
+  }
+
+  // NIP-42: a signed kind 22242 event naming this connection's challenge
+  private handleAuth(socket: MockRelaySocket, event: NostrEvent): void {
+    if (!event || typeof event.id !== 'string') {
+      this.send(socket, ["NOTICE", "invalid: AUTH without an event"]);
+      return;
+    }
+    const challenge = event.tags.find(tag => tag[0] === 'challenge')?.[1];
+    if (event.kind !== kinds.ClientAuth || challenge !== socket.challenge || !isValidEvent(event)) {
+      this.send(socket, ["OK", event.id, false, "invalid: bad AUTH event"]);
+      return;
+    }
+    socket.authenticatedAs = event.pubkey;
+    this.send(socket, ["OK", event.id, true, ""]);
+  }
+
+  // Store an event, keeping only the newest version of replaceable and addressable ones
+  private store(event: NostrEvent): boolean {
+    const address = getReplaceableAddress(event);
+    if (address) {
+      for (const existing of this.events.values()) {
+        if (getReplaceableAddress(existing) !== address) continue;
+        if ((existing.created_at || 0) > (event.created_at || 0) ||
+            ((existing.created_at || 0) === (event.created_at || 0) && existing.id < event.id)) {
+          return false;
+        }
+        this.events.delete(existing.id);
+      }
+    }
+
+    this.events.set(event.id, event);
+    return true;
+  }
+
+  // Send a newly accepted event to every live subscription that matches it
+  private broadcast(event: NostrEvent): void {
+    for (const socket of this.sockets) {
+      for (const [subscriptionId, filters] of socket.subscriptions) {
+        if (filters.some(filter => matchFilter(filter, event as Event))) {
+          this.send(socket, ["EVENT", subscriptionId, event]);
+        }
+      }
+    }
+  }
+
+  private send(socket: MockRelaySocket, frame: unknown[]): void {
+    this.later(() => socket.deliver(frame));
+  }
+
+  // Deliver asynchronously, like a real socket, so callers never see re-entrant frames
+  private later(callback: () => void): void {
+    setTimeout(callback, this.latency);
+  }
+}
+
+function isValidEvent(event: NostrEvent): boolean {
+  try {
+    return verifyEvent(event as Event);
+  } catch {
+    return false;
+  }
+}
+
+function getReplaceableAddress(event: NostrEvent): string | null {
+  if (kinds.isReplaceableKind(event.kind)) {
+    return `${event.kind}:${event.pubkey}`;
+  }
+  if (kinds.isAddressableKind(event.kind)) {
+    const d = event.tags.find(tag => tag[0] === 'd')?.[1] || '';
+    return `${event.kind}:${event.pubkey}:${d}`;
+  }
+  return null;
+}
+
+function sortNewestFirst(events: NostrEvent[]): NostrEvent[] {
+  return events.sort((a, b) => (b.created_at || 0) - (a.created_at || 0) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Transport that connects every relay URL to the given in-memory relay
+ */
+export function createInMemoryTransport(relay: MockRelay): Transport {
+  return (url) => relay.connect(url);
+}
+
+// Shared instance used by the app when the mock relay is enabled
+export const mockRelay = new MockRelay({ latency: 20 });
+
+/**
+ * Route all relay traffic to the in-memory mock relay and seed it with fixtures
+ * Enabled in dev with VITE_MOCK_RELAY=true; every relay URL, including the
+ * user's own relay list, then talks to the same in-memory store.
+ */
+export function installMockRelay(client: NostrClient, fixtures: NostrEvent[] = []): MockRelay {
+  console.log(`Using in-memory mock relay with ${fixtures.length} fixture events`);
+
+  mockRelay.seed(fixtures);
+  const defaults = [{ url: MOCK_RELAY_URL, read: true, write: true }];
+  client.setTransport(createInMemoryTransport(mockRelay));
+  client.pool.setRelayInfoLoader(async () => mockRelay.getInfo());
+  client.pool.setDefaultRelays(defaults);
+  client.pool.setRelays(defaults);
+
+  return mockRelay;
+}
@@ -0,0 +1,152 @@
+import { finalizeEvent, generateSecretKey, type EventTemplate } from 'nostr-tools';
+import type { NostrEvent } from './nostr';
+import { LEGACY_SIMILARITY_EVENT_KIND, SIMILARITY_EVENT_KIND, buildSimilarityTags } from './similaritySchema';
+import type { BookIdentifier } from './bookIdentifiers';
+
+interface FixturePair {
+  item1: BookIdentifier;
+  item2: BookIdentifier;
+  similarity: number;
+  content: string;
+}
+
+const FIXTURE_AUTHORS = [
+  { name: "alice", about: "Reads classics on the train" },
+  { name: "bob", about: "Science fiction and long walks" },
+  { name: "carol", about: "Book club organizer" },
+];
+
+const isbn = (value: string): BookIdentifier => ({ type: 'isbn', value });
+
+const FIXTURE_PAIRS: FixturePair[] = [
+  { item1: isbn("9780141439518"), item2: isbn("9780141439662"), similarity: 0.85, content: "Both Austen novels follow sisters navigating marriage, money and manners." },
+  { item1: isbn("9780451524935"), item2: isbn("9780060850524"), similarity: 0.8, content: "Two takes on a controlled society: one through fear, the other through pleasure." },
+  { item1: isbn("9780547928227"), item2: isbn("9780547928210"), similarity: 0.75, content: "Same world and a similar journey, but the tone gets much darker." },
+  { item1: isbn("9780441172719"), item2: isbn("9780553293357"), similarity: 0.6, content: "Galactic empires, long timescales and the question of who steers history." },
+  { item1: isbn("9780142437247"), item2: isbn("9780684801223"), similarity: 0.55, content: "Obsession with a single great fish at sea, told very differently." },
+  // Works without an ISBN are referenced by their Wikidata items
+  { item1: { type: 'wikidata', value: "Q8275" }, item2: { type: 'wikidata', value: "Q35160" }, similarity: 0.9, content: "Homer's two epics: the war itself, then the long way home from it." },
+  { item1: isbn("9780143058144"), item2: isbn("9780679720201"), similarity: 0.5, content: "A killing and its aftermath, one steeped in guilt and the other in indifference." },
+];
+
+// Events that break the similarity schema, so the "malformed events hidden" notice shows up
+const MALFORMED_FIXTURE_TAGS: string[][][] = [
+  [['i', 'isbn:9780141439518'], ['kind', 'isbn'], ['i', 'isbn:9780141439662'], ['kind', 'isbn'], ['similarity', '1.7']],
+  [['i', 'isbn:9780451524935'], ['kind', 'isbn'], ['i', 'isbn:1234567890'], ['kind', 'isbn'], ['similarity', '0.4']],
+];
+
+// What the other fixture authors react with (NIP-25), picked in turn
+const FIXTURE_REACTIONS = ['+', '+', '-', '📚', '+'];
+
+// A short NIP-22 thread under bob's Austen similarity: [author index, text, index of the comment replied to]
+const FIXTURE_COMMENTS: [number, string, number | null][] = [
+  [0, "Persuasion reads like the older, sadder sister of these two.", null],
+  [1, "Fair, it could have been a trio. I went with the two I reread most.", 0],
+  [2, "Our book club paired these last year and the discussion ran long.", null],
+  [0, "Mine too! Marianne vs. Lizzy was the whole evening.", 2],
+];
+// Which fixture similarity the thread is under
+const FIXTURE_COMMENTED_EVENT = FIXTURE_PAIRS.length;
+
+// Enough events to fill more than one Explore page
+const FIXTURE_EVENT_COUNT = 30;
+const FIXTURE_INTERVAL = 60 * 60;
+
+/**
+ * Build signed fixture events for the mock relay: a profile per fixture author
+ * and similarity events spread over the past hours, plus a few malformed ones.
+ * Once every author has rated every pair, the older events are legacy kind 1729
+ * versions of the same opinions, which Explore hides behind the newer ones.
+ * The other authors react to the current ones, so Explore can rank by agreement,
+ * and discuss one of them in a comment thread.
+ * Keys are generated per call, so events are signed but different on every page load.
+ */
+export function createFixtureEvents(now: number = Math.floor(Date.now() / 1000)): NostrEvent[] {
+  const keys = FIXTURE_AUTHORS.map(() => generateSecretKey());
+  const events: NostrEvent[] = [];
+
+  FIXTURE_AUTHORS.forEach((author, index) => {
+    events.push(sign({
+      kind: 0,
+      created_at: now - FIXTURE_EVENT_COUNT * FIXTURE_INTERVAL,
+      tags: [],
+      content: JSON.stringify({ name: author.name, display_name: author.name, about: author.about }),
+    }, keys[index]));
+  });
+
+  for (let i = 0; i < FIXTURE_EVENT_COUNT; i++) {
+    const pair = FIXTURE_PAIRS[i % FIXTURE_PAIRS.length];
+    // Vary the score a little so repeated pairs are distinguishable
+    const similarity = Math.min(1, Math.max(0, pair.similarity + ((i % 5) - 2) * 0.05));
+    const isLegacy = i >= FIXTURE_PAIRS.length * keys.length;
+
+    const similarityEvent = sign({
+      kind: isLegacy ? LEGACY_SIMILARITY_EVENT_KIND : SIMILARITY_EVENT_KIND,
+      created_at: now - i * FIXTURE_INTERVAL,
+      tags: buildSimilarityTags(pair.item1, pair.item2, similarity),
+      content: pair.content,
+    }, keys[i % keys.length]);
+    events.push(similarityEvent);
+    if (isLegacy) continue;
+
+    keys.forEach((key, j) => {
+      if (j === i % keys.length) return;
+      const d = similarityEvent.tags.find(tag => tag[0] === 'd')[1];
+      events.push(sign({
+        kind: 7,
+        created_at: similarityEvent.created_at + 60 * (j + 1),
+        tags: [
+          ['e', similarityEvent.id],
+          ['p', similarityEvent.pubkey],
+          ['a', `${SIMILARITY_EVENT_KIND}:${similarityEvent.pubkey}:${d}`],
+          ['k', String(SIMILARITY_EVENT_KIND)],
+        ],
+        content: FIXTURE_REACTIONS[(i + j) % FIXTURE_REACTIONS.length],
+      }, key));
+    });
+
+    if (i === FIXTURE_COMMENTED_EVENT) {
+      events.push(...createFixtureComments(similarityEvent, keys));
+    }
+  }
+
+  MALFORMED_FIXTURE_TAGS.forEach((tags, i) => {
+    events.push(sign({
+      kind: LEGACY_SIMILARITY_EVENT_KIND,
+      created_at: now - (i + 1) * FIXTURE_INTERVAL - 30 * 60,
+      tags,
+      content: "A fixture event the validator rejects",
+    }, keys[i % keys.length]));
+  });
+
+  return events;
+}
+
+function createFixtureComments(root: NostrEvent, keys: Uint8Array[]): NostrEvent[] {
+  const d = root.tags.find(tag => tag[0] === 'd')[1];
+  const comments: NostrEvent[] = [];
+
+  FIXTURE_COMMENTS.forEach(([author, content, parentIndex], n) => {
+    const parent = parentIndex === null ? root : comments[parentIndex];
+    comments.push(sign({
+      kind: 1111,
+      created_at: root.created_at + 5 * 60 * (n + 1),
+      tags: [
+        ['E', root.id, '', root.pubkey],
+        ['K', String(root.kind)],
+        ['P', root.pubkey],
+        ['A', `${SIMILARITY_EVENT_KIND}:${root.pubkey}:${d}`],
+        ['e', parent.id, '', parent.pubkey],
+        ['k', String(parent.kind)],
+        ['p', parent.pubkey],
+      ],
+      content,
+    }, keys[author]));
+  });
+
+  return comments;
+}
+
+function sign(template: EventTemplate, secretKey: Uint8Array): NostrEvent {
+  return finalizeEvent(template, secretKey);
+}
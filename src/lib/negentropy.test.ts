@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { Negentropy, NegentropyStorage } from './negentropy';
+import { MockRelay, MOCK_RELAY_URL, createInMemoryTransport } from './mockRelay';
+import { RelayPool } from './relayPool';
+
+// Fake (id, created_at) records; ids are 32-byte hex like event ids
+function records(from: number, to: number): { id: string; created_at: number }[] {
+  const result = [];
+  for (let i = from; i < to; i++) {
+    result.push({ id: i.toString(16).padStart(64, '0'), created_at: 1000 + Math.floor(i / 3) });
+  }
+  return result;
+}
+
+// Run both sides until the client is done; returns what the client learned
+async function reconcileLocally(client: NegentropyStorage, relay: NegentropyStorage) {
+  const initiator = new Negentropy(client);
+  const responder = new Negentropy(relay);
+  const haveIds: string[] = [];
+  const needIds: string[] = [];
+
+  let message: string | null = await initiator.initiate();
+  let rounds = 0;
+  while (message !== null) {
+    const answer = await responder.reconcile(message);
+    const result = await initiator.reconcile(answer.output);
+    haveIds.push(...result.haveIds);
+    needIds.push(...result.needIds);
+    message = result.output;
+    rounds++;
+  }
+  return { haveIds: haveIds.sort(), needIds: needIds.sort(), rounds };
+}
+
+const ids = (items: { id: string }[]) => items.map(item => item.id).sort();
+
+describe('Negentropy', () => {
+  it('finishes in one round when both sides have the same events', async () => {
+    const items = records(0, 50);
+    const result = await reconcileLocally(new NegentropyStorage(items), new NegentropyStorage(items));
+
+    expect(result).toEqual({ haveIds: [], needIds: [], rounds: 1 });
+  });
+
+  it('finds the ids each side is missing', async () => {
+    const result = await reconcileLocally(
+      new NegentropyStorage(records(0, 60)),
+      new NegentropyStorage(records(40, 100))
+    );
+
+    expect(result.haveIds).toEqual(ids(records(0, 40)));
+    expect(result.needIds).toEqual(ids(records(60, 100)));
+  });
+
+  it('splits large sets by fingerprint and still finds scattered differences', async () => {
+    const all = records(0, 2000);
+    const missing = all.filter((_, i) => i % 97 === 0);
+    const client = all.filter((_, i) => i % 97 !== 0);
+
+    const result = await reconcileLocally(new NegentropyStorage(client), new NegentropyStorage(all));
+
+    expect(result.haveIds).toEqual([]);
+    expect(result.needIds).toEqual(ids(missing));
+    expect(result.rounds).toBeGreaterThan(1);
+  });
+
+  it('handles an empty side', async () => {
+    const result = await reconcileLocally(new NegentropyStorage([]), new NegentropyStorage(records(0, 20)));
+    expect(result.needIds).toEqual(ids(records(0, 20)));
+  });
+
+  it('rejects malformed messages', async () => {
+    const responder = new Negentropy(new NegentropyStorage(records(0, 5)));
+    await expect(responder.reconcile("zz")).rejects.toThrow("Invalid hex");
+    await expect(responder.reconcile("01")).rejects.toThrow("protocol version");
+  });
+});
+
+describe('RelayPool.reconcile', () => {
+  const secretKey = generateSecretKey();
+  const events = [1, 2, 3, 4].map(i => finalizeEvent({ kind: 1, created_at: 1000 + i, tags: [], content: `note ${i}` }, secretKey));
+
+  function createPool(relay: MockRelay): RelayPool {
+    const pool = new RelayPool([{ url: MOCK_RELAY_URL, read: true, write: true }], createInMemoryTransport(relay));
+    pool.setRelayInfoLoader(async () => relay.getInfo());
+    return pool;
+  }
+
+  it('reconciles local events against the mock relay over NIP-77', async () => {
+    const relay = new MockRelay();
+    relay.seed(events.slice(1));
+    const local = new NegentropyStorage([events[0], events[1]].map(({ id, created_at }) => ({ id, created_at })));
+
+    const result = await createPool(relay).reconcile(MOCK_RELAY_URL, { kinds: [1] }, local);
+
+    expect(result.haveIds).toEqual([events[0].id]);
+    expect(result.needIds.sort()).toEqual([events[2].id, events[3].id].sort());
+  });
+
+  it('rejects when the relay does not support negentropy', async () => {
+    const relay = new MockRelay({ negentropy: false });
+    const pool = createPool(relay);
+
+    await expect(pool.reconcile(MOCK_RELAY_URL, { kinds: [1] }, new NegentropyStorage([]))).rejects.toThrow();
+    expect(pool.supportsNegentropy(MOCK_RELAY_URL)).toBe(false);
+  });
+});
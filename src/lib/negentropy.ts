@@ -0,0 +1,371 @@
+// Negentropy range-based set reconciliation, protocol version 1, as used by NIP-77
+// https://github.com/hoytech/negentropy
+
+const PROTOCOL_VERSION = 0x61;
+const ID_SIZE = 32;
+const FINGERPRINT_SIZE = 16;
+// Ranges with fewer items than this are sent as id lists instead of being split further
+const BUCKETS = 16;
+
+const MODE_SKIP = 0;
+const MODE_FINGERPRINT = 1;
+const MODE_ID_LIST = 2;
+
+interface Item {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+// Upper end of a range; `id` may be a prefix, and Infinity marks the end of the set
+interface Bound {
+  timestamp: number;
+  id: Uint8Array;
+}
+
+export interface ReconcileResult {
+  // Next message to send, or null when the initiator is done
+  output: string | null;
+  // Ids only we have, and ids only the other side has (hex)
+  haveIds: string[];
+  needIds: string[];
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    throw new Error("Invalid hex in negentropy message");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function compareItems(a: Item | Bound, b: Item | Bound): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  return compareBytes(a.id, b.id);
+}
+
+function encodeVarInt(value: number): number[] {
+  if (value === 0) return [0];
+  const digits: number[] = [];
+  while (value > 0) {
+    digits.unshift(value % 128);
+    value = Math.floor(value / 128);
+  }
+  // Every byte but the last has its high bit set
+  return digits.map((digit, i) => (i < digits.length - 1 ? digit | 0x80 : digit));
+}
+
+class Reader {
+  private position = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.position >= this.bytes.length;
+  }
+
+  readByte(): number {
+    if (this.done) throw new Error("Negentropy message ended early");
+    return this.bytes[this.position++];
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.position + length > this.bytes.length) throw new Error("Negentropy message ended early");
+    const bytes = this.bytes.slice(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+
+  readVarInt(): number {
+    let value = 0;
+    for (;;) {
+      const byte = this.readByte();
+      value = value * 128 + (byte & 0x7f);
+      if ((byte & 0x80) === 0) return value;
+    }
+  }
+}
+
+/**
+ * The (created_at, id) pairs of one side of the reconciliation, sorted once up front
+ */
+export class NegentropyStorage {
+  private items: Item[];
+
+  constructor(events: { id: string; created_at: number }[]) {
+    this.items = events
+      .map(event => ({ timestamp: event.created_at, id: hexToBytes(event.id) }))
+      .filter(item => item.id.length === ID_SIZE)
+      .sort(compareItems);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  getItem(index: number): Item {
+    return this.items[index];
+  }
+
+  // First index in [begin, end) whose item is not below the bound
+  findLowerBound(begin: number, end: number, bound: Bound): number {
+    let low = begin;
+    let high = end;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compareItems(this.items[middle], bound) < 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  // sha256 of the ids summed as 256-bit little-endian integers, followed by the count
+  async fingerprint(begin: number, end: number): Promise<Uint8Array> {
+    const sum = new Uint8Array(ID_SIZE);
+    for (let i = begin; i < end; i++) {
+      const id = this.items[i].id;
+      let carry = 0;
+      for (let j = 0; j < ID_SIZE; j++) {
+        const total = sum[j] + id[j] + carry;
+        sum[j] = total & 0xff;
+        carry = total >> 8;
+      }
+    }
+
+    const input = new Uint8Array([...sum, ...encodeVarInt(end - begin)]);
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+    return hash.slice(0, FINGERPRINT_SIZE);
+  }
+}
+
+/**
+ * One side of a negentropy reconciliation
+ * The client calls initiate() and feeds every relay answer to reconcile() until
+ * it returns a null output; the relay side only ever calls reconcile().
+ */
+export class Negentropy {
+  private storage: NegentropyStorage;
+  // Stop adding ranges once a message gets this big (bytes, 0 for no limit)
+  private frameSizeLimit: number;
+  private isInitiator = false;
+  private lastTimestampIn = 0;
+  private lastTimestampOut = 0;
+
+  constructor(storage: NegentropyStorage, frameSizeLimit = 0) {
+    if (frameSizeLimit !== 0 && frameSizeLimit < 4096) {
+      throw new Error("Negentropy frame size limit is too small");
+    }
+    this.storage = storage;
+    this.frameSizeLimit = frameSizeLimit;
+  }
+
+  async initiate(): Promise<string> {
+    if (this.isInitiator) throw new Error("Negentropy reconciliation already started");
+    this.isInitiator = true;
+
+    const output = [PROTOCOL_VERSION];
+    await this.splitRange(0, this.storage.size, { timestamp: Infinity, id: new Uint8Array(0) }, output);
+    return bytesToHex(new Uint8Array(output));
+  }
+
+  async reconcile(message: string): Promise<ReconcileResult> {
+    const query = new Reader(hexToBytes(message));
+    const haveIds: string[] = [];
+    const needIds: string[] = [];
+    this.lastTimestampIn = 0;
+    this.lastTimestampOut = 0;
+
+    const fullOutput = [PROTOCOL_VERSION];
+    const version = query.readByte();
+    if (version < 0x60 || version > 0x6f) {
+      throw new Error("Invalid negentropy protocol version byte");
+    }
+    if (version !== PROTOCOL_VERSION) {
+      if (this.isInitiator) {
+        throw new Error(`Unsupported negentropy protocol version ${version - 0x60}`);
+      }
+      // Answer with our version so the initiator can downgrade
+      return { output: bytesToHex(new Uint8Array(fullOutput)), haveIds, needIds };
+    }
+
+    const storageSize = this.storage.size;
+    let prevBound: Bound = { timestamp: 0, id: new Uint8Array(0) };
+    let prevIndex = 0;
+    let skip = false;
+
+    while (!query.done) {
+      const output: number[] = [];
+      const flushSkip = () => {
+        if (!skip) return;
+        skip = false;
+        output.push(...this.encodeBound(prevBound), ...encodeVarInt(MODE_SKIP));
+      };
+
+      const currBound = this.decodeBound(query);
+      const mode = query.readVarInt();
+      const lower = prevIndex;
+      let upper = this.storage.findLowerBound(prevIndex, storageSize, currBound);
+
+      if (mode === MODE_SKIP) {
+        skip = true;
+      } else if (mode === MODE_FINGERPRINT) {
+        const theirFingerprint = query.readBytes(FINGERPRINT_SIZE);
+        const ourFingerprint = await this.storage.fingerprint(lower, upper);
+        if (compareBytes(theirFingerprint, ourFingerprint) !== 0) {
+          flushSkip();
+          await this.splitRange(lower, upper, currBound, output);
+        } else {
+          skip = true;
+        }
+      } else if (mode === MODE_ID_LIST) {
+        const count = query.readVarInt();
+        const theirIds = new Set<string>();
+        for (let i = 0; i < count; i++) {
+          theirIds.add(bytesToHex(query.readBytes(ID_SIZE)));
+        }
+
+        for (let i = lower; i < upper; i++) {
+          const id = bytesToHex(this.storage.getItem(i).id);
+          if (!theirIds.delete(id) && this.isInitiator) {
+            haveIds.push(id);
+          }
+        }
+
+        if (this.isInitiator) {
+          skip = true;
+          needIds.push(...theirIds);
+        } else {
+          flushSkip();
+          const responseIds: number[] = [];
+          let responseCount = 0;
+          let endBound: Bound = currBound;
+
+          for (let i = lower; i < upper; i++) {
+            if (this.exceededFrameSizeLimit(fullOutput.length + responseIds.length)) {
+              // Close the id list early; the rest of the range gets a fingerprint below
+              endBound = this.storage.getItem(i);
+              upper = i;
+              break;
+            }
+            responseIds.push(...this.storage.getItem(i).id);
+            responseCount++;
+          }
+
+          output.push(...this.encodeBound(endBound), ...encodeVarInt(MODE_ID_LIST), ...encodeVarInt(responseCount), ...responseIds);
+        }
+      } else {
+        throw new Error(`Unexpected negentropy mode ${mode}`);
+      }
+
+      if (this.exceededFrameSizeLimit(fullOutput.length + output.length)) {
+        // Out of room: cover everything left with one fingerprint and let the next round continue
+        const remaining = await this.storage.fingerprint(upper, storageSize);
+        fullOutput.push(
+          ...this.encodeBound({ timestamp: Infinity, id: new Uint8Array(0) }),
+          ...encodeVarInt(MODE_FINGERPRINT),
+          ...remaining
+        );
+        break;
+      }
+      fullOutput.push(...output);
+
+      prevIndex = upper;
+      prevBound = currBound;
+    }
+
+    const done = this.isInitiator && fullOutput.length === 1;
+    return { output: done ? null : bytesToHex(new Uint8Array(fullOutput)), haveIds, needIds };
+  }
+
+  // Describe [lower, upper) as an id list, or as fingerprints of BUCKETS sub-ranges
+  private async splitRange(lower: number, upper: number, upperBound: Bound, output: number[]): Promise<void> {
+    const count = upper - lower;
+
+    if (count < BUCKETS * 2) {
+      output.push(...this.encodeBound(upperBound), ...encodeVarInt(MODE_ID_LIST), ...encodeVarInt(count));
+      for (let i = lower; i < upper; i++) {
+        output.push(...this.storage.getItem(i).id);
+      }
+      return;
+    }
+
+    const itemsPerBucket = Math.floor(count / BUCKETS);
+    const bucketsWithExtra = count % BUCKETS;
+    let current = lower;
+
+    for (let i = 0; i < BUCKETS; i++) {
+      const bucketSize = itemsPerBucket + (i < bucketsWithExtra ? 1 : 0);
+      const fingerprint = await this.storage.fingerprint(current, current + bucketSize);
+      current += bucketSize;
+
+      const nextBound = current === upper
+        ? upperBound
+        : this.getMinimalBound(this.storage.getItem(current - 1), this.storage.getItem(current));
+
+      output.push(...this.encodeBound(nextBound), ...encodeVarInt(MODE_FINGERPRINT), ...fingerprint);
+    }
+  }
+
+  private exceededFrameSizeLimit(size: number): boolean {
+    return this.frameSizeLimit !== 0 && size > this.frameSizeLimit - 200;
+  }
+
+  // Shortest bound that separates two neighbouring items
+  private getMinimalBound(prev: Item, curr: Item): Bound {
+    if (curr.timestamp !== prev.timestamp) {
+      return { timestamp: curr.timestamp, id: new Uint8Array(0) };
+    }
+
+    let shared = 0;
+    while (shared < ID_SIZE && curr.id[shared] === prev.id[shared]) {
+      shared++;
+    }
+    return { timestamp: curr.timestamp, id: curr.id.slice(0, shared + 1) };
+  }
+
+  // Timestamps are sent as 1 + the difference to the previous one; 0 means infinity
+  private encodeBound(bound: Bound): number[] {
+    let encodedTimestamp: number;
+    if (bound.timestamp === Infinity) {
+      this.lastTimestampOut = Infinity;
+      encodedTimestamp = 0;
+    } else {
+      encodedTimestamp = bound.timestamp - this.lastTimestampOut + 1;
+      this.lastTimestampOut = bound.timestamp;
+    }
+    return [...encodeVarInt(encodedTimestamp), ...encodeVarInt(bound.id.length), ...bound.id];
+  }
+
+  private decodeBound(reader: Reader): Bound {
+    const encoded = reader.readVarInt();
+    let timestamp = encoded === 0 ? Infinity : encoded - 1;
+    if (this.lastTimestampIn === Infinity || timestamp === Infinity) {
+      this.lastTimestampIn = Infinity;
+      timestamp = Infinity;
+    } else {
+      timestamp += this.lastTimestampIn;
+      this.lastTimestampIn = timestamp;
+    }
+
+    const length = reader.readVarInt();
+    if (length > ID_SIZE) throw new Error("Negentropy bound id is too long");
+    return { timestamp, id: reader.readBytes(length) };
+  }
+}
@@ -1,6 +1,19 @@
-import { Event, finalizeEvent, getEventHash } from 'nostr-tools';
+import { Event, finalizeEvent, nip42 } from 'nostr-tools';
 import { toast } from "@/components/ui/use-toast";
 import { canSignEvents, getCurrentUser } from './auth';
+import { NostrClient, type NostrSigner } from './nostrClient';
+import type { PublishResult, RelayPublishResult } from './relayPool';
+import { getOutboxItemStatus } from './outbox';
+import {
+  SIMILARITY_EVENT_KIND,
+  LEGACY_SIMILARITY_EVENT_KIND,
+  buildSimilarityTags,
+  getSimilarityPairKey,
+  validateSimilarityEvent,
+  type SimilarityIssue,
+} from './similaritySchema';
+import { getBookIdentifier, toIdentifierTags, type BookIdentifier } from './bookIdentifiers';
+import { getEventAddress, saveEvents } from './eventStore';
 
 // Re-export auth types
 export type { User } from './auth';
@@ -16,7 +29,9 @@ export interface NostrEvent {
 }
 
 export interface Book {
-  isbn: string;
+  // Books without an ISBN are identified by `identifier` instead
+  isbn?: string;
+  identifier?: BookIdentifier;
   title: string;
   author: string;
   cover?: string;
@@ -26,76 +41,31 @@ export interface Book {
 
 export interface SimilarityEvent {
   id: string;
+  kind: number;
   pubkey: string;
   createdAt: number;
   content: string;
   book1: Book;
   book2: Book;
   similarity: number;
+  // Order-independent id of the book pair; one current similarity per author and pair
+  pairKey: string;
+  // `kind:pubkey:d` of addressable similarities, for deletions that target every version
+  address?: string;
 }
 
-export const RELAY_URL = "wss://relay.damus.io";
-export const SIMILARITY_EVENT_KIND = 1729;
-export const MAX_RETRY_COUNT = 2;
-export const RETRY_DELAY = 1000;
-
-// Generate a short subscription ID (compatible with strict relays)
-export function generateShortId(prefix: string = ''): string {
-  // Generate 8 random hex characters (4 bytes)
-  const randomStr = Math.random().toString(16).substring(2, 10);
-  return prefix ? `${prefix}${randomStr.slice(0, 6)}` : randomStr.slice(0, 8);
-}
-
-let socket: WebSocket | null = null;
-let connectionPromise: Promise<WebSocket> | null = null;
+export { SIMILARITY_EVENT_KIND, LEGACY_SIMILARITY_EVENT_KIND, SIMILARITY_EVENT_KINDS, SIMILARITY_SCHEMA_VERSION, getSimilarityPairKey, MAX_SIMILARITY_CONTENT_LENGTH, validateSimilarityEvent } from './similaritySchema';
+export type { SimilarityIssue, SimilarityIssueCode, SimilarityValidationResult } from './similaritySchema';
+export type { BookIdentifier, BookIdentifierType } from './bookIdentifiers';
 
-export const connectToRelay = (): Promise<WebSocket> => {
-  // If we already have a valid connection promise and socket, return it
-  if (connectionPromise && socket && (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN)) {
-    console.log(`Reusing existing connection promise to ${RELAY_URL}`);
-    return connectionPromise;
-  }
-  
-  // Create a new connection promise
-  connectionPromise = new Promise((resolve, reject) => {
-    // If we have an existing socket that's not in OPEN state, close it
-    if (socket && socket.readyState !== WebSocket.OPEN) {
-      console.log("Closing existing socket that's not open");
-      socket.close();
-      socket = null;
-    }
-    
-    // If we already have an open connection, use it
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      console.log(`Using existing open WebSocket connection to ${RELAY_URL}`);
-      resolve(socket);
-      return;
-    }
-    
-    // Create a new WebSocket connection
-    console.log(`Connecting to relay: ${RELAY_URL}`);
-    
-    socket = new WebSocket(RELAY_URL);
-    
-    socket.onopen = () => {
-      console.log(`Connected to relay: ${RELAY_URL}`);
-      resolve(socket as WebSocket);
-    };
-    
-    socket.onerror = (error) => {
-      console.error(`WebSocket error connecting to ${RELAY_URL}:`, error);
-      reject(error);
-    };
-    
-    socket.onclose = () => {
-      console.log(`Disconnected from relay: ${RELAY_URL}`);
-      socket = null;
-      connectionPromise = null;
-    };
-  });
-  
-  return connectionPromise;
-};
+export { generateShortId, DEFAULT_RELAYS } from './relayPool';
+export type { NostrFilter, QueryOptions, ReconcileResult, RelayConfig, PublishResult, RelayPublishResult, RelayPublishStatus } from './relayPool';
+export { RelayError, QueryError, parseRelayMessage } from './relayErrors';
+export type { RelayMessagePrefix } from './relayErrors';
+export { NostrClient } from './nostrClient';
+export type { NostrSigner, NostrClientOptions, EventPage } from './nostrClient';
+export { Outbox, getOutboxItemStatus } from './outbox';
+export type { OutboxItem, OutboxItemStatus, OutboxRelayState, OutboxRelayStatus } from './outbox';
 
 export const getPublicKey = async (): Promise<string> => {
   const user = getCurrentUser();
@@ -156,199 +126,237 @@ export const signEvent = async (event: NostrEvent): Promise<NostrEvent> => {
   }
 };
 
-export const publishEvent = async (event: NostrEvent): Promise<string> => {
-  try {
-    const ws = await connectToRelay();
+// Relays we already warned the user about, so reconnects don't repeat the toast
+const authWarningsShown = new Set<string>();
+
+/**
+ * Sign a NIP-42 AUTH event for a relay challenge with the current signer
+ */
+export const signAuthEvent = async (relayUrl: string, challenge: string): Promise<NostrEvent> => {
+  if (!canSignEvents()) {
+    const user = getCurrentUser();
+    const message = user?.loginMethod === 'npub'
+      ? `${relayUrl} requires authentication, which read-only (npub) sessions cannot do. Log in with an extension or private key to use this relay.`
+      : `${relayUrl} requires authentication. Log in with an extension or private key to use this relay.`;
     
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error("Publish timeout"));
-      }, 10000);
-      
-      const messageHandler = (message: MessageEvent) => {
-        try {
-          const data = JSON.parse(message.data);
-          if (data[0] === "OK" && data[1] === event.id) {
-            clearTimeout(timeoutId);
-            ws.removeEventListener("message", messageHandler);
-            resolve(data[1]);
-          }
-        } catch (e) {
-          console.error("Error parsing message:", e);
-        }
-      };
-      
-      ws.addEventListener("message", messageHandler);
-      ws.send(JSON.stringify(["EVENT", event]));
-    });
-  } catch (error) {
-    console.error("Failed to publish event:", error);
-    throw error;
+    if (!authWarningsShown.has(relayUrl)) {
+      authWarningsShown.add(relayUrl);
+      toast({
+        title: "Relay Authentication Required",
+        description: message,
+        variant: "destructive",
+      });
+    }
+    throw new Error(message);
   }
+  
+  const pubkey = await getPublicKey();
+  return signEvent({ ...nip42.makeAuthEvent(relayUrl, challenge), pubkey });
 };
 
-export const subscribeToEvents = async (
-  filter: { kinds: number[]; [key: string]: any },
-  onEvent: (event: NostrEvent) => void
-): Promise<() => void> => {
-  // Generate a short subscription ID to avoid errors with strict relays
-  const subId = generateShortId("s");
+/**
+ * Signs with whatever the user logged in with (extension or private key)
+ */
+export const sessionSigner: NostrSigner = { getPublicKey, signEvent };
+
+// Client shared by the whole app; components reach it through useNostrClient()
+export const nostrClient = new NostrClient({ signer: sessionSigner });
+nostrClient.pool.setAuthSigner(signAuthEvent);
+
+/**
+ * Get the relays that accepted a published event
+ */
+export const getAcceptedRelays = (result: PublishResult): RelayPublishResult[] => {
+  return result.relays.filter(relay => relay.status === 'accepted');
+};
+
+/**
+ * Summarize a publish outcome in one sentence for toasts
+ */
+export const describePublishResult = (result: PublishResult): string => {
+  const total = result.relays.length;
+  const accepted = getAcceptedRelays(result).length;
   
-  try {
-    console.log(`Setting up subscription with ID: ${subId} to relay ${RELAY_URL}`);
-    // Get WebSocket connection
-    const ws = await connectToRelay();
-    
-    // Ensure the connection is open
-    if (ws.readyState !== WebSocket.OPEN) {
-      console.log("Waiting for WebSocket connection to be ready...");
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error("Timed out waiting for connection"));
-        }, 5000);
-        
-        const checkState = () => {
-          if (ws.readyState === WebSocket.OPEN) {
-            clearTimeout(timeout);
-            resolve();
-          } else if (ws.readyState === WebSocket.CLOSED || ws.readyState === WebSocket.CLOSING) {
-            clearTimeout(timeout);
-            reject(new Error("WebSocket closed before connection was established"));
-          } else {
-            // Still connecting, check again in 100ms
-            setTimeout(checkState, 100);
-          }
-        };
-        
-        checkState();
-      });
-    }
-    
-    console.log(`WebSocket ready, subscribing with ID: ${subId}`);
-    
-    // Set up message handler for this subscription
-    const messageHandler = (message: MessageEvent) => {
-      try {
-        // Log notices for debugging
-        const data = JSON.parse(message.data);
-        if (data[0] === "NOTICE") {
-          console.warn(`Relay notice: ${data[1]}`);
-        }
-        
-        if (data[0] === "EVENT" && data[1] === subId) {
-          console.log("Received matching event:", data[2]);
-          onEvent(data[2]);
-        } else if (data[0] === "EOSE" && data[1] === subId) {
-          console.log("End of stored events for subscription:", subId);
-        }
-      } catch (error) {
-        console.error("Error handling WebSocket message:", error);
-      }
-    };
-    
-    // Add the message handler
-    ws.addEventListener("message", messageHandler);
-    
-    // Send the subscription request
-    ws.send(JSON.stringify(["REQ", subId, filter]));
-    console.log("Subscription request sent:", JSON.stringify(["REQ", subId, filter]));
-    
-    // Return a function to clean up the subscription
-    return () => {
-      console.log(`Cleaning up subscription: ${subId}`);
-      if (ws && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(["CLOSE", subId]));
-        console.log(`Sent CLOSE for subscription: ${subId}`);
-      } else {
-        console.log(`WebSocket not open, couldn't send CLOSE for: ${subId}`);
-      }
-      ws.removeEventListener("message", messageHandler);
-    };
-  } catch (error) {
-    console.error(`Subscription failed:`, error);
-    throw error;
+  if (accepted === total) {
+    return `Accepted by ${total === 1 ? 'the relay' : `all ${total} relays`}.`;
   }
+  
+  const failures = result.relays
+    .filter(relay => relay.status !== 'accepted')
+    .map(relay => `${relay.url.replace(/^wss?:\/\//, '')}: ${relay.message || relay.status}`);
+  
+  return `Accepted by ${accepted} of ${total} relays. ${failures.join('; ')}`;
 };
 
+// Whether an event is still waiting in the outbox for relays to come back
+const isQueued = (client: NostrClient, eventId: string): boolean => {
+  const item = client.outbox.getItem(eventId);
+  return !!item && getOutboxItemStatus(item) === 'pending';
+};
+
+// Placeholder book for an identifier until its details are looked up
+export const identifierToBook = (identifier: BookIdentifier): Book => ({
+  ...(identifier.type === 'isbn' ? { isbn: identifier.value } : {}),
+  identifier,
+  title: `Book ${identifier.value}`,
+  author: "Unknown Author"
+});
+
+/**
+ * Turn a similarity event (either kind) into a similarity; null when it breaks the schema (see similaritySchema.ts)
+ */
 export const parseEventToSimilarity = (event: NostrEvent): SimilarityEvent | null => {
-  try {
-    const items = event.tags.filter(tag => tag[0] === 'i');
-    const kinds = event.tags.filter(tag => tag[0] === 'kind');
-    const similarityTag = event.tags.find(tag => tag[0] === 'similarity');
-    
-    if (items.length !== 2 || kinds.length !== 2 || !similarityTag) {
-      console.error("Invalid similarity event format", event);
-      return null;
+  const { fields } = validateSimilarityEvent(event);
+  if (!fields) {
+    return null;
+  }
+  
+  const book1 = identifierToBook(fields.item1);
+  const book2 = identifierToBook(fields.item2);
+  
+  return {
+    id: event.id || '',
+    kind: event.kind,
+    pubkey: event.pubkey,
+    createdAt: event.created_at || 0,
+    content: event.content,
+    book1,
+    book2,
+    similarity: fields.similarity,
+    pairKey: fields.pairKey,
+    address: getEventAddress(event)
+  };
+};
+
+/**
+ * Only the newest similarity of each author for each book pair
+ * Relays and the local store already drop older versions of addressable events;
+ * this also hides legacy kind 1729 events that a later edit superseded.
+ */
+export const keepLatestSimilarities = (events: SimilarityEvent[]): SimilarityEvent[] => {
+  const latest = new Map<string, SimilarityEvent>();
+  for (const event of events) {
+    const key = `${event.pubkey}:${event.pairKey}`;
+    const current = latest.get(key);
+    if (!current || event.createdAt > current.createdAt) {
+      latest.set(key, event);
     }
-    
-    if (!kinds.every(tag => tag[1] === 'isbn')) {
-      return null;
+  }
+  return events.filter(event => latest.get(`${event.pubkey}:${event.pairKey}`) === event);
+};
+
+/**
+ * An event that failed validation, kept so the UI can say what was hidden and why
+ */
+export interface MalformedEvent {
+  event: NostrEvent;
+  errors: SimilarityIssue[];
+}
+
+/**
+ * Parse a batch of events, separating those that break the schema
+ */
+export const parseSimilarityEvents = (events: NostrEvent[]): { events: SimilarityEvent[]; malformed: MalformedEvent[] } => {
+  const parsed: SimilarityEvent[] = [];
+  const malformed: MalformedEvent[] = [];
+  
+  for (const event of events) {
+    const similarityEvent = parseEventToSimilarity(event);
+    if (similarityEvent) {
+      parsed.push(similarityEvent);
+    } else {
+      malformed.push({ event, errors: validateSimilarityEvent(event).errors });
     }
-    
-    const isbn1 = items[0][1].replace('isbn:', '');
-    const isbn2 = items[1][1].replace('isbn:', '');
-    
-    const book1: Book = {
-      isbn: isbn1,
-      title: `Book ${isbn1}`,
-      author: "Unknown Author"
-    };
-    
-    const book2: Book = {
-      isbn: isbn2,
-      title: `Book ${isbn2}`,
-      author: "Unknown Author"
-    };
-    
-    const similarity = parseFloat(similarityTag[1]);
-    
-    return {
-      id: event.id || '',
-      pubkey: event.pubkey,
-      createdAt: event.created_at || 0,
-      content: event.content,
-      book1,
-      book2,
-      similarity
-    };
-  } catch (error) {
-    console.error("Failed to parse similarity event:", error);
-    return null;
   }
+  
+  return { events: parsed, malformed };
+};
+
+/**
+ * The current user's newest similarity for a pair of books, to edit it; null if they have none
+ */
+export const getOwnSimilarity = async (
+  book1: Book,
+  book2: Book,
+  client: NostrClient = nostrClient
+): Promise<SimilarityEvent | null> => {
+  const item1 = getBookIdentifier(book1);
+  const item2 = getBookIdentifier(book2);
+  if (!item1 || !item2) return null;
+  
+  const pubkey = await client.getPublicKey();
+  const pairKey = getSimilarityPairKey(item1, item2);
+  const events = await client.query([
+    { kinds: [SIMILARITY_EVENT_KIND], authors: [pubkey], '#d': [pairKey] },
+    // Legacy events have no d tag; find them by their books and check the pair below
+    { kinds: [LEGACY_SIMILARITY_EVENT_KIND], authors: [pubkey], '#i': [toIdentifierTags(item1)[0][1], toIdentifierTags(item2)[0][1]] },
+  ]);
+  
+  const own = parseSimilarityEvents(events).events
+    .filter(event => event.pubkey === pubkey && event.pairKey === pairKey)
+    .sort((a, b) => b.createdAt - a.createdAt);
+  console.log(`Found ${own.length} earlier similarities for ${pairKey}`);
+  return own[0] ?? null;
 };
 
 export const createSimilarityEvent = async (
   book1: Book,
   book2: Book,
   similarity: number,
-  content: string
-): Promise<string> => {
+  content: string,
+  client: NostrClient = nostrClient
+): Promise<PublishResult> => {
   try {
-    const pubkey = await getPublicKey();
+    const item1 = getBookIdentifier(book1);
+    const item2 = getBookIdentifier(book2);
+    if (!item1 || !item2) {
+      throw new Error("Both books need an ISBN or another identifier");
+    }
     
-    const event: NostrEvent = {
-      pubkey,
+    const pubkey = await client.getPublicKey();
+    const template: NostrEvent = {
       kind: SIMILARITY_EVENT_KIND,
+      pubkey,
       created_at: Math.floor(Date.now() / 1000),
-      tags: [
-        ['i', `isbn:${book1.isbn}`],
-        ['kind', 'isbn'],
-        ['i', `isbn:${book2.isbn}`],
-        ['kind', 'isbn'],
-        ['similarity', similarity.toString()]
-      ],
+      tags: buildSimilarityTags(item1, item2, similarity),
       content
     };
     
-    const signedEvent = await signEvent(event);
-    const eventId = await publishEvent(signedEvent);
+    // Don't publish what our own parser would hide
+    const { errors } = validateSimilarityEvent(template);
+    if (errors.length > 0) {
+      throw new Error(errors.map(error => error.message).join('; '));
+    }
     
-    toast({
-      title: "Success!",
-      description: "Your similarity event has been published",
-    });
+    const event = await client.signEvent(template);
+    // Queued before the first attempt so an unreachable relay doesn't lose the event
+    const result = await client.outbox.send(event);
+    const accepted = getAcceptedRelays(result).length;
+    
+    if (accepted === result.relays.length) {
+      toast({
+        title: "Success!",
+        description: `Your similarity event has been published. ${describePublishResult(result)}`,
+      });
+    } else if (accepted > 0) {
+      toast({
+        title: "Partially published",
+        description: describePublishResult(result),
+      });
+    } else if (isQueued(client, result.eventId)) {
+      toast({
+        title: "Saved to your outbox",
+        description: "No relay could be reached. Your similarity event will be sent when they are back.",
+      });
+    } else {
+      toast({
+        title: "No relay accepted your event",
+        description: describePublishResult(result),
+        variant: "destructive",
+      });
+    }
     
-    return eventId;
+    return result;
   } catch (error) {
     console.error("Failed to create similarity event:", error);
     toast({
@@ -358,4 +366,74 @@ export const createSimilarityEvent = async (
     });
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Ask relays to delete one of the user's similarities (NIP-09)
+ * The request names the event and, for addressable similarities, its address so
+ * earlier versions go too. It is applied to the local store right away and
+ * resolves to the signed deletion, for removing the similarity from views.
+ */
+export const deleteSimilarityEvent = async (
+  event: SimilarityEvent,
+  client: NostrClient = nostrClient
+): Promise<NostrEvent> => {
+  try {
+    const pubkey = await client.getPublicKey();
+    if (pubkey !== event.pubkey) {
+      throw new Error("You can only delete your own similarities");
+    }
+    
+    const tags = [['e', event.id]];
+    if (event.address) {
+      tags.push(['a', event.address]);
+    }
+    // Lets feeds subscribe to deletions of the kinds they show
+    tags.push(['k', String(event.kind)]);
+    
+    const deletion = await client.signEvent({
+      kind: 5,
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      tags,
+      content: "Deleted from SimilarTeia"
+    });
+    await saveEvents([deletion]);
+    
+    const result = await client.outbox.send(deletion);
+    const accepted = getAcceptedRelays(result).length;
+    
+    if (accepted === result.relays.length) {
+      toast({
+        title: "Similarity deleted",
+        description: `Relays were asked to delete it. ${describePublishResult(result)}`,
+      });
+    } else if (accepted > 0) {
+      toast({
+        title: "Deletion partially published",
+        description: describePublishResult(result),
+      });
+    } else if (isQueued(client, result.eventId)) {
+      toast({
+        title: "Deletion saved to your outbox",
+        description: "No relay could be reached. The deletion will be sent when they are back.",
+      });
+    } else {
+      toast({
+        title: "No relay accepted the deletion",
+        description: describePublishResult(result),
+        variant: "destructive",
+      });
+    }
+    
+    return deletion;
+  } catch (error) {
+    console.error("Failed to delete similarity event:", error);
+    toast({
+      title: "Failed to delete similarity",
+      description: error instanceof Error ? error.message : "Unknown error",
+      variant: "destructive",
+    });
+    throw error;
+  }
+};
@@ -0,0 +1,219 @@
+import { nip42 } from 'nostr-tools';
+import type { NostrEvent } from './nostr';
+import type { RelayError } from './relayErrors';
+import {
+  RelayPool,
+  DEFAULT_RELAYS,
+  type NostrFilter,
+  type PublishResult,
+  type QueryOptions,
+  type ReconcileResult,
+  type RelayConfig,
+} from './relayPool';
+import { NegentropyStorage } from './negentropy';
+import { Outbox } from './outbox';
+import type { RelayInfo, RelayInfoLoader } from './relayInfo';
+import { browserWebSocketTransport, type Transport } from './nostrTransport';
+
+/**
+ * Signs events on behalf of the current user
+ */
+export interface NostrSigner {
+  getPublicKey(): Promise<string>;
+  signEvent(event: NostrEvent): Promise<NostrEvent>;
+}
+
+export interface NostrClientOptions {
+  // How sockets are opened; defaults to the browser WebSocket
+  transport?: Transport;
+  relays?: RelayConfig[];
+  signer?: NostrSigner | null;
+  // Where NIP-11 documents come from; defaults to HTTP
+  relayInfoLoader?: RelayInfoLoader;
+}
+
+export interface EventPage {
+  events: NostrEvent[];
+  // Pass as `until` to load the next (older) page; null once there is nothing older
+  until: number | null;
+}
+
+/**
+ * Entry point for everything Nostr: relay connections, subscriptions, queries,
+ * publishing and signing. The transport decides how sockets are opened, so the
+ * same client runs in the browser, against the in-memory relay, or under Node.
+ */
+export class NostrClient {
+  readonly pool: RelayPool;
+  // Signed events waiting for relays; started by NostrProvider
+  readonly outbox: Outbox = new Outbox(this);
+  private signer: NostrSigner | null;
+
+  constructor(options: NostrClientOptions = {}) {
+    this.pool = new RelayPool(options.relays ?? DEFAULT_RELAYS, options.transport ?? browserWebSocketTransport);
+    this.signer = options.signer ?? null;
+    if (options.relayInfoLoader) {
+      this.pool.setRelayInfoLoader(options.relayInfoLoader);
+    }
+    // Answer NIP-42 challenges with the current signer
+    this.pool.setAuthSigner((relayUrl, challenge) => this.signAuthEvent(relayUrl, challenge));
+  }
+
+  setTransport(transport: Transport): void {
+    this.pool.setTransport(transport);
+  }
+
+  setSigner(signer: NostrSigner | null): void {
+    this.signer = signer;
+  }
+
+  async getPublicKey(): Promise<string> {
+    if (!this.signer) {
+      throw new Error("User not logged in");
+    }
+    return this.signer.getPublicKey();
+  }
+
+  async signEvent(event: NostrEvent): Promise<NostrEvent> {
+    if (!this.signer) {
+      throw new Error("No signer available");
+    }
+    return this.signer.signEvent(event);
+  }
+
+  /**
+   * Sign a NIP-42 kind 22242 event answering a relay's AUTH challenge
+   */
+  async signAuthEvent(relayUrl: string, challenge: string): Promise<NostrEvent> {
+    const pubkey = await this.getPublicKey();
+    return this.signEvent({ ...nip42.makeAuthEvent(relayUrl, challenge), pubkey });
+  }
+
+  /**
+   * Connect to every relay in the pool
+   * Resolves as soon as the pool has at least one open connection
+   */
+  connect(): Promise<void> {
+    return this.pool.connect();
+  }
+
+  getReadRelays(): string[] {
+    return this.pool.getReadRelays();
+  }
+
+  /**
+   * A relay's NIP-11 information document (cached); null when it has none
+   */
+  getRelayInfo(relayUrl: string): Promise<RelayInfo | null> {
+    return this.pool.getRelayInfo(relayUrl);
+  }
+
+  /**
+   * Stream events matching a filter until the returned function is called
+   * `onError` is told about relays that closed the subscription for good (e.g. `blocked:` or `invalid:`);
+   * `onEose` runs once every relay has sent its stored events, so later events are new
+   */
+  subscribe(
+    filter: NostrFilter | NostrFilter[],
+    onEvent: (event: NostrEvent) => void,
+    onError?: (error: RelayError) => void,
+    onEose?: () => void
+  ): () => void {
+    const filters = Array.isArray(filter) ? filter : [filter];
+    console.log(`Setting up subscription on ${this.pool.getReadRelays().length} relays:`, JSON.stringify(filters));
+
+    // Events are merged and deduplicated across relays by the pool
+    return this.pool.subscribe(filters, {
+      onEvent,
+      onEose,
+      onError: (error) => {
+        console.warn(`Subscription closed by ${error.relayUrl}:`, error.message);
+        onError?.(error);
+      },
+    });
+  }
+
+  /**
+   * Load stored events matching a filter once
+   * Resolves at EOSE from every read relay (or at the timeout) and closes the subscription
+   * Rejects with a QueryError when every relay refused or could not be reached
+   */
+  async query(filter: NostrFilter | NostrFilter[], options: QueryOptions = {}): Promise<NostrEvent[]> {
+    const filters = Array.isArray(filter) ? filter : [filter];
+    console.log(`Querying ${this.pool.getReadRelays().length} relays:`, JSON.stringify(filters));
+
+    const events = await this.pool.query(filters, options);
+    console.log(`Query returned ${events.length} events`);
+    return events;
+  }
+
+  /**
+   * Load one page of events, newest first, at or before `until`
+   * Each relay returns up to `limit` events, so the merged result is cut to the
+   * newest `limit`; everything newer than the returned cursor is then complete.
+   */
+  async queryPage(
+    filter: NostrFilter,
+    limit: number,
+    until?: number,
+    options: QueryOptions = {}
+  ): Promise<EventPage> {
+    const pageFilter: NostrFilter = until !== undefined
+      ? { ...filter, limit, until }
+      : { ...filter, limit };
+
+    const events = (await this.query(pageFilter, options)).slice(0, limit);
+    if (events.length < limit) {
+      return { events, until: null };
+    }
+
+    // Inclusive cursor: events sharing the oldest timestamp are loaded again and deduped by the caller
+    return { events, until: events[events.length - 1].created_at || 0 };
+  }
+
+  /**
+   * Whether to try NIP-77 negentropy with a relay before falling back to REQ
+   */
+  supportsNegentropy(relayUrl: string): boolean {
+    return this.pool.supportsNegentropy(relayUrl);
+  }
+
+  /**
+   * Compare the events we hold with a relay's events matching a filter (NIP-77)
+   * Only ids go over the wire; fetch the returned `needIds` to catch up.
+   */
+  reconcile(
+    relayUrl: string,
+    filter: NostrFilter,
+    localEvents: { id: string; created_at: number }[]
+  ): Promise<ReconcileResult> {
+    return this.pool.reconcile(relayUrl, filter, new NegentropyStorage(localEvents));
+  }
+
+  /**
+   * Send a signed event to every write relay (or just `relayUrls`) and report each relay's answer
+   */
+  async publish(event: NostrEvent, relayUrls?: string[]): Promise<PublishResult> {
+    try {
+      const result = await this.pool.publish(event, relayUrls);
+      console.log(`Publish of ${result.eventId} finished:`, result.relays);
+      return result;
+    } catch (error) {
+      console.error("Failed to publish event:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fill in the author, sign with the current signer and publish
+   */
+  async signAndPublish(event: Omit<NostrEvent, 'pubkey'>): Promise<PublishResult> {
+    const pubkey = await this.getPublicKey();
+    const signedEvent = await this.signEvent({
+      created_at: Math.floor(Date.now() / 1000),
+      ...event,
+      pubkey,
+    });
+    return this.publish(signedEvent);
+  }
+}
@@ -0,0 +1,42 @@
+// WebSocket ready states; defined here so transports work where there is no global WebSocket (e.g. Node)
+export const SOCKET_CONNECTING = 0;
+export const SOCKET_OPEN = 1;
+export const SOCKET_CLOSING = 2;
+export const SOCKET_CLOSED = 3;
+
+/**
+ * The part of the WebSocket interface the relay connections use
+ * Browser WebSockets, the Node `ws` package and the in-memory relay all fit it
+ */
+export interface TransportSocket {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((message: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/**
+ * Opens a socket to a relay URL
+ */
+export type Transport = (url: string) => TransportSocket;
+
+/**
+ * Constructor of a WebSocket implementation, e.g. `WebSocket` from the `ws` package
+ */
+export type WebSocketConstructor = new (url: string) => TransportSocket;
+
+/**
+ * Transport over any WebSocket implementation
+ * Pass the `ws` package's WebSocket to run the client under Node
+ */
+export function createWebSocketTransport(WebSocketImpl: WebSocketConstructor): Transport {
+  return (url) => new WebSocketImpl(url);
+}
+
+/**
+ * Transport over the browser's WebSocket
+ */
+export const browserWebSocketTransport: Transport = (url) => new WebSocket(url) as unknown as TransportSocket;
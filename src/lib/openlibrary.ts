@@ -1,5 +1,6 @@
 import { toast } from "@/components/ui/use-toast";
 import { Book } from "./nostr";
+import { normalizeIsbn, toIsbn13 } from "./isbn";
 
 // Base OpenLibrary URL for API requests
 const OPENLIBRARY_BASE_URL = "https://openlibrary.org";
@@ -49,22 +50,22 @@ function generateFallbackCoverUrls(book: Book, isbn: string): void {
  */
 export const getBooksByISBNs = async (isbns: string[]): Promise<Record<string, Book>> => {
   try {
+    // Normalize ISBNs to ISBN-13, so an ISBN-10 and its ISBN-13 share cache entries and requests
+    const normalizedISBNs = isbns.map(normalizeIsbn);
+    
     // Create a cache key from sorted ISBNs to ensure consistency
-    const cacheKey = [...isbns].sort().join(',');
+    const cacheKey = [...new Set(normalizedISBNs)].sort().join(',');
     
     // Check cache first
     const now = Date.now();
     const cached = bookCache[cacheKey];
     if (cached && (now - cached.timestamp < CACHE_TTL)) {
       console.log("Using cached book data");
-      return cached.data;
+      return Object.fromEntries(isbns.map((isbn, i) => [isbn, cached.data[normalizedISBNs[i]]]).filter(([, book]) => book));
     }
     
-    // Normalize ISBNs - remove hyphens and ensure they're clean
-    const normalizedISBNs = isbns.map(isbn => isbn.replace(/[-\s]/g, '').trim());
-    
     // Create comma-separated list of ISBN bibkeys
-    const bibkeys = normalizedISBNs.map(isbn => `ISBN:${isbn}`).join(',');
+    const bibkeys = [...new Set(normalizedISBNs)].map(isbn => `ISBN:${isbn}`).join(',');
     console.log('OpenLibrary request with bibkeys:', bibkeys);
     
     // Construct the API URL
@@ -90,6 +91,8 @@ export const getBooksByISBNs = async (isbns: string[]): Promise<Record<string, B
     console.log('OpenLibrary API response:', data);
     
     const result: Record<string, Book> = {};
+    // Books by normalized ISBN, for the cache
+    const booksByISBN: Record<string, Book> = {};
     
     // Process each ISBN from the original list
     for (let i = 0; i < isbns.length; i++) {
@@ -122,8 +125,8 @@ export const getBooksByISBNs = async (isbns: string[]): Promise<Record<string, B
         }
         
         const book: Book = {
-          isbn: originalISBN,
-          title: bookData.title || `Book ${originalISBN}`,
+          isbn: normalizedISBN,
+          title: bookData.title || `Book ${normalizedISBN}`,
           author: bookData.authors?.[0]?.name || "Unknown Author",
           cover: coverUrl
         };
@@ -132,13 +135,14 @@ export const getBooksByISBNs = async (isbns: string[]): Promise<Record<string, B
         generateFallbackCoverUrls(book, normalizedISBN);
         
         result[originalISBN] = book;
+        booksByISBN[normalizedISBN] = book;
       } else {
         console.log(`No data found for ISBN ${originalISBN}, using fallback`);
         
         // Create a basic fallback entry with direct cover URL
         const book: Book = {
-          isbn: originalISBN,
-          title: `Book ${originalISBN}`,
+          isbn: normalizedISBN,
+          title: `Book ${normalizedISBN}`,
           author: "Unknown Author",
           cover: `${COVERS_BASE_URL}/b/isbn/${normalizedISBN}-M.jpg`
         };
@@ -147,11 +151,12 @@ export const getBooksByISBNs = async (isbns: string[]): Promise<Record<string, B
         generateFallbackCoverUrls(book, normalizedISBN);
         
         result[originalISBN] = book;
+        booksByISBN[normalizedISBN] = book;
       }
     }
     
     // Cache the result
-    bookCache[cacheKey] = { data: result, timestamp: now };
+    bookCache[cacheKey] = { data: booksByISBN, timestamp: now };
     
     return result;
   } catch (error) {
@@ -165,6 +170,52 @@ export const getBooksByISBNs = async (isbns: string[]): Promise<Record<string, B
   }
 };
 
+/**
+ * Get book information from OpenLibrary by work ("OL45883W") or edition ("OL7353617M") id
+ */
+export const getBookByOpenLibraryId = async (id: string): Promise<Book | null> => {
+  const cacheKey = `olid:${id}`;
+  const now = Date.now();
+  const cached = bookCache[cacheKey];
+  if (cached && (now - cached.timestamp < CACHE_TTL)) {
+    return cached.data[id] ?? null;
+  }
+  
+  try {
+    const url = `${OPENLIBRARY_BASE_URL}/${id.endsWith('W') ? 'works' : 'books'}/${id}.json`;
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`OpenLibrary API error: ${response.status}`);
+    }
+    const data = await response.json();
+    
+    const book: Book = {
+      identifier: { type: 'openlibrary', value: id },
+      title: data.title || `Book ${id}`,
+      author: "Unknown Author",
+      cover: Array.isArray(data.covers) && data.covers.length > 0
+        ? `${COVERS_BASE_URL}/b/id/${data.covers[0]}-M.jpg`
+        : undefined
+    };
+    
+    // Works list authors as { author: { key } }, editions as { key }
+    const authorKey = data.authors?.[0]?.author?.key || data.authors?.[0]?.key;
+    if (authorKey) {
+      const authorResponse = await fetch(`${OPENLIBRARY_BASE_URL}${authorKey}.json`);
+      if (authorResponse.ok) {
+        const authorData = await authorResponse.json();
+        book.author = authorData.name || book.author;
+      }
+    }
+    
+    bookCache[cacheKey] = { data: { [id]: book }, timestamp: now };
+    return book;
+  } catch (error) {
+    console.error(`Failed to get Open Library record ${id}:`, error);
+    return null;
+  }
+};
+
 /**
  * Search for books by title, author, etc.
  */
@@ -222,8 +273,15 @@ export const searchBooks = async (query: string): Promise<Book[]> => {
         }
       }
       
-      // If we don't have an ISBN, skip this book
-      if (!isbn) continue;
+      // Search results mix ISBN-10 and ISBN-13; always use the ISBN-13 so the same book
+      // gets the same identifier whichever was picked. Invalid ISBNs are dropped.
+      if (isbn) {
+        isbn = toIsbn13(isbn) ?? '';
+      }
+      
+      // Without an ISBN, fall back to the Open Library work id (e.g. "/works/OL45883W")
+      const workId = typeof doc.key === 'string' ? doc.key.replace('/works/', '') : '';
+      if (!isbn && !/^OL\d+W$/.test(workId)) continue;
       
       // Generate initial cover URL based on what's available in search results
       let coverUrl = '';
@@ -250,7 +308,7 @@ export const searchBooks = async (query: string): Promise<Book[]> => {
       
       // Create a book entry with the information we have immediately
       const book: Book = {
-        isbn: isbn,
+        ...(isbn ? { isbn } : { identifier: { type: 'openlibrary' as const, value: workId } }),
         title: doc.title,
         author: doc.author_name?.[0] || 'Unknown Author',
         cover: coverUrl,
@@ -259,12 +317,14 @@ export const searchBooks = async (query: string): Promise<Book[]> => {
       };
       
       // Generate fallback cover URLs 
-      generateFallbackCoverUrls(book, isbn);
+      if (isbn) {
+        generateFallbackCoverUrls(book, isbn);
+      }
       
       books.push(book);
     }
     
-    console.log(`Found ${books.length} books with ISBNs`);
+    console.log(`Found ${books.length} books with ISBNs or Open Library ids`);
     
     // If we have edition keys, fetch detailed info in the background
     // This won't delay the initial display of results
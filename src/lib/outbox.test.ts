@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { MockRelay } from './mockRelay';
+import { NostrClient } from './nostrClient';
+import { deleteOutboxItem, getOutboxItems, putOutboxItem } from './eventStore';
+import { getOutboxItemStatus, type OutboxItem } from './outbox';
+import type { Transport } from './nostrTransport';
+
+const secretKey = generateSecretKey();
+const RELAY_URL = "mock://outbox";
+
+function note(content: string) {
+  return finalizeEvent({ kind: 1, created_at: Math.floor(Date.now() / 1000), tags: [], content }, secretKey);
+}
+
+// A relay that can be taken offline; connecting fails while it is
+function createClient(relay: MockRelay, state = { online: true }): NostrClient {
+  const transport: Transport = (url) => {
+    if (!state.online) throw new Error("offline");
+    return relay.connect(url);
+  };
+  return new NostrClient({ transport, relays: [{ url: RELAY_URL, read: true, write: true }], relayInfoLoader: async () => null });
+}
+
+// An item left pending by an earlier session, after `attempts` tries
+function storedItem(content: string, attempts: number): OutboxItem {
+  const event = note(content);
+  return {
+    id: event.id,
+    event,
+    queuedAt: Date.now(),
+    relays: { [RELAY_URL]: { status: 'pending', message: '' } },
+    attempts,
+    nextAttemptAt: Date.now(),
+  };
+}
+
+const getStoredItem = async (id: string) => (await getOutboxItems()).find(item => item.id === id);
+
+describe('Outbox', () => {
+  beforeEach(async () => {
+    for (const item of await getOutboxItems()) {
+      await deleteOutboxItem(item.id);
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps an event that no relay took, and retries it later', async () => {
+    const client = createClient(new MockRelay(), { online: false });
+    const event = note("queued");
+
+    const started = Date.now();
+    await client.outbox.send(event);
+
+    const item = await getStoredItem(event.id);
+    expect(item && getOutboxItemStatus(item)).toBe('pending');
+    expect(item?.attempts).toBe(1);
+    expect(item?.nextAttemptAt).toBeGreaterThanOrEqual(started + 5000);
+  });
+
+  it('waits longer after each failed attempt', async () => {
+    const item = storedItem("backing off", 3);
+    await putOutboxItem(item);
+    const client = createClient(new MockRelay(), { online: false });
+
+    const started = Date.now();
+    await client.outbox.start();
+    await vi.waitFor(async () => expect((await getStoredItem(item.id))?.attempts).toBe(4));
+    client.outbox.stop();
+
+    // 5s doubled for each earlier attempt
+    expect((await getStoredItem(item.id))?.nextAttemptAt).toBeGreaterThanOrEqual(started + 40000);
+  });
+
+  it('delivers stored items when it starts', async () => {
+    const item = storedItem("from last session", 1);
+    await putOutboxItem(item);
+    const relay = new MockRelay();
+    const client = createClient(relay);
+
+    await client.outbox.start();
+    await vi.waitFor(() => expect(relay.getEvents().map(event => event.id)).toEqual([item.id]));
+    client.outbox.stop();
+
+    await vi.waitFor(async () => expect(getOutboxItemStatus((await getStoredItem(item.id))!)).toBe('sent'));
+  });
+
+  it('retries right away when the browser comes back online', async () => {
+    const browser = new EventTarget();
+    const navigator = { onLine: false };
+    vi.stubGlobal('window', browser);
+    vi.stubGlobal('navigator', navigator);
+    const relay = new MockRelay();
+    const state = { online: false };
+    const client = createClient(relay, state);
+    await client.outbox.start();
+    const event = note("sent once online");
+    await client.outbox.send(event);
+
+    state.online = true;
+    navigator.onLine = true;
+    browser.dispatchEvent(new Event('online'));
+
+    // Well before the 5s retry would have come due
+    await vi.waitFor(() => expect(relay.getEvents().map(e => e.id)).toEqual([event.id]), { timeout: 2000 });
+    client.outbox.stop();
+  });
+
+  it('gives up after the last attempt', async () => {
+    const item = storedItem("never delivered", 9);
+    await putOutboxItem(item);
+    const client = createClient(new MockRelay(), { online: false });
+
+    await client.outbox.start();
+    await vi.waitFor(async () => expect((await getStoredItem(item.id))?.attempts).toBe(10));
+    client.outbox.stop();
+
+    const failed = await getStoredItem(item.id);
+    expect(failed && getOutboxItemStatus(failed)).toBe('failed');
+    expect(failed?.nextAttemptAt).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+import type { NostrClient } from './nostrClient';
+import type { NostrEvent } from './nostr';
+import type { PublishResult, RelayPublishResult } from './relayPool';
+import { deleteOutboxItem, getOutboxItems, putOutboxItem } from './eventStore';
+
+// Delivery attempts before a relay that never answered counts as failed
+const MAX_ATTEMPTS = 10;
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+// Delivered items stay visible for a day, then are dropped on the next start
+const SENT_RETENTION = 24 * 60 * 60 * 1000;
+
+// Relay answers that may go the other way when asked again later
+const RETRYABLE_PREFIXES = new Set(['rate-limited', 'error']);
+
+export type OutboxRelayStatus = 'pending' | 'accepted' | 'rejected' | 'failed';
+
+export interface OutboxRelayState {
+  status: OutboxRelayStatus;
+  // The relay's answer or our own error, from the latest attempt
+  message: string;
+}
+
+export type OutboxItemStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * A signed event kept until every relay it was meant for has answered for good
+ */
+export interface OutboxItem {
+  id: string;
+  event: NostrEvent;
+  queuedAt: number;
+  relays: Record<string, OutboxRelayState>;
+  attempts: number;
+  // When pending relays are tried next; null while nothing is pending
+  nextAttemptAt: number | null;
+}
+
+/**
+ * Pending while some relay may still take the event, sent once any relay accepted it
+ */
+export function getOutboxItemStatus(item: OutboxItem): OutboxItemStatus {
+  const states = Object.values(item.relays);
+  if (states.some(state => state.status === 'pending')) return 'pending';
+  if (states.some(state => state.status === 'accepted')) return 'sent';
+  return 'failed';
+}
+
+function toRelayState(result: RelayPublishResult): OutboxRelayState {
+  if (result.status === 'accepted') {
+    return { status: 'accepted', message: result.message };
+  }
+  if (result.status === 'rejected' && !(result.prefix && RETRYABLE_PREFIXES.has(result.prefix))) {
+    return { status: 'rejected', message: result.message };
+  }
+  // Timeouts, connection failures and temporary refusals are tried again
+  return { status: 'pending', message: result.message };
+}
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Persistent queue of signed events for the client's write relays
+ * Events are stored before the first attempt, so a relay outage or a closed tab
+ * does not lose them. Relays that did not answer are retried with backoff, and
+ * right away when the browser comes back online.
+ */
+export class Outbox {
+  private items = new Map<string, OutboxItem>();
+  private listeners = new Set<() => void>();
+  private delivering = new Set<string>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+
+  constructor(private client: NostrClient) {}
+
+  /**
+   * Load stored items and start retrying the pending ones
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    const stored = await getOutboxItems();
+    for (const item of stored) {
+      if (getOutboxItemStatus(item) === 'sent' && Date.now() - item.queuedAt > SENT_RETENTION) {
+        await deleteOutboxItem(item.id);
+        continue;
+      }
+      if (!this.items.has(item.id)) {
+        this.items.set(item.id, item);
+      }
+    }
+    if (stored.length > 0) {
+      console.log(`Loaded ${this.items.size} outbox items`);
+    }
+
+    this.notify();
+    this.scheduleRetry();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Queue a signed event for every write relay and make the first attempt
+   * Resolves with that attempt's outcome; relays that did not take the event
+   * are retried in the background.
+   */
+  async send(event: NostrEvent): Promise<PublishResult> {
+    if (!event.id || !event.sig) {
+      throw new Error("Cannot queue an unsigned event");
+    }
+    const relayUrls = this.client.pool.getWriteRelays();
+    if (relayUrls.length === 0) {
+      throw new Error("No write relays configured");
+    }
+
+    const item: OutboxItem = {
+      id: event.id,
+      event,
+      queuedAt: Date.now(),
+      relays: Object.fromEntries(relayUrls.map(url => [url, { status: 'pending', message: '' }])),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+    this.items.set(item.id, item);
+    await putOutboxItem(item);
+    this.notify();
+
+    return this.deliver(item.id);
+  }
+
+  getItem(id: string): OutboxItem | undefined {
+    return this.items.get(id);
+  }
+
+  getItems(): OutboxItem[] {
+    return [...this.items.values()].sort((a, b) => b.queuedAt - a.queuedAt);
+  }
+
+  /**
+   * Try the relays that failed or are still pending again, starting now
+   */
+  async retry(id: string): Promise<void> {
+    const item = this.items.get(id);
+    if (!item) return;
+
+    const relays = Object.fromEntries(Object.entries(item.relays).map(([url, state]) =>
+      [url, state.status === 'failed' ? { ...state, status: 'pending' as const } : state]
+    ));
+    await this.update({ ...item, relays, attempts: 0, nextAttemptAt: Date.now() });
+    await this.deliver(id);
+  }
+
+  /**
+   * Drop an item; relays that have not answered yet will never get it
+   */
+  async discard(id: string): Promise<void> {
+    if (!this.items.delete(id)) return;
+    await deleteOutboxItem(id);
+    this.notify();
+    this.scheduleRetry();
+  }
+
+  async clearSent(): Promise<void> {
+    const sent = this.getItems().filter(item => getOutboxItemStatus(item) === 'sent');
+    for (const item of sent) {
+      this.items.delete(item.id);
+      await deleteOutboxItem(item.id);
+    }
+    this.notify();
+  }
+
+  /**
+   * Register a listener for changes to the queue; returns a function that removes it
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private async update(item: OutboxItem): Promise<void> {
+    // Discarded while an attempt was running
+    if (!this.items.has(item.id)) return;
+    this.items.set(item.id, item);
+    await putOutboxItem(item);
+    this.notify();
+  }
+
+  // Publish to the item's pending relays and record each relay's answer
+  private async deliver(id: string): Promise<PublishResult> {
+    const item = this.items.get(id);
+    const empty: PublishResult = { eventId: id, relays: [] };
+    if (!item || this.delivering.has(id)) return empty;
+
+    const writeRelays = new Set(this.client.pool.getWriteRelays());
+    const relays = { ...item.relays };
+    const targets: string[] = [];
+    for (const [url, state] of Object.entries(relays)) {
+      if (state.status !== 'pending') continue;
+      if (writeRelays.has(url)) {
+        targets.push(url);
+      } else {
+        relays[url] = { status: 'failed', message: "No longer one of your write relays" };
+      }
+    }
+    if (targets.length === 0) {
+      await this.update({ ...item, relays, nextAttemptAt: null });
+      return empty;
+    }
+
+    this.delivering.add(id);
+    let result: PublishResult;
+    try {
+      console.log(`Delivering outbox item ${id} to ${targets.length} relays (attempt ${item.attempts + 1})`);
+      result = await this.client.publish(item.event, targets);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Publish failed";
+      result = { eventId: id, relays: targets.map(url => ({ url, status: 'error', message })) };
+    } finally {
+      this.delivering.delete(id);
+    }
+
+    for (const relayResult of result.relays) {
+      relays[relayResult.url] = toRelayState(relayResult);
+    }
+
+    const attempts = item.attempts + 1;
+    const stillPending = Object.entries(relays).filter(([, state]) => state.status === 'pending');
+    let nextAttemptAt: number | null = null;
+    if (stillPending.length > 0) {
+      if (attempts >= MAX_ATTEMPTS) {
+        console.log(`Giving up on outbox item ${id} after ${attempts} attempts`);
+        for (const [url, state] of stillPending) {
+          relays[url] = { status: 'failed', message: state.message || "No response from relay" };
+        }
+      } else {
+        nextAttemptAt = Date.now() + retryDelay(attempts);
+      }
+    }
+
+    await this.update({ ...item, relays, attempts, nextAttemptAt });
+    this.scheduleRetry();
+    return result;
+  }
+
+  // Keep one timer for the item that is due first
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.started) return;
+
+    const due = [...this.items.values()]
+      .filter(item => !this.delivering.has(item.id))
+      .map(item => item.nextAttemptAt)
+      .filter((time): time is number => time !== null);
+    if (due.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...due) - Date.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.retryDue();
+    }, delay);
+  }
+
+  private retryDue(): void {
+    // Attempts made while offline would only use up the retries
+    if (isOffline()) {
+      console.log("Offline, waiting to deliver outbox items");
+      return;
+    }
+
+    const now = Date.now();
+    for (const item of this.items.values()) {
+      if (item.nextAttemptAt !== null && item.nextAttemptAt <= now) {
+        this.deliver(item.id).catch(error => console.error(`Failed to deliver outbox item ${item.id}:`, error));
+      }
+    }
+    this.scheduleRetry();
+  }
+
+  private handleOnline = (): void => {
+    console.log("Back online, delivering pending outbox items");
+    const now = Date.now();
+    for (const item of this.items.values()) {
+      if (item.nextAttemptAt !== null) {
+        item.nextAttemptAt = now;
+      }
+    }
+    this.retryDue();
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { MockRelay, createInMemoryTransport } from './mockRelay';
+import { NostrClient } from './nostrClient';
+import { REACTION_KIND, fetchReactions, getAgreementScore, normalizeReaction, summarizeReactions } from './reactions';
+import type { NostrEvent } from './nostr';
+
+const author = generateSecretKey();
+const now = Math.floor(Date.now() / 1000);
+
+function reaction(secretKey: Uint8Array, content: string, tags: string[][], created_at = now - 100): NostrEvent {
+  return finalizeEvent({ kind: REACTION_KIND, created_at, tags, content }, secretKey);
+}
+
+function createClient(relay: MockRelay, url: string): NostrClient {
+  return new NostrClient({
+    transport: createInMemoryTransport(relay),
+    relays: [{ url, read: true, write: true }],
+    relayInfoLoader: async () => null,
+  });
+}
+
+describe('fetchReactions', () => {
+  it('keeps reactions to earlier versions of an edited similarity', async () => {
+    const address = `31729:${getPublicKey(author)}:pair`;
+    const original = finalizeEvent({ kind: 31729, created_at: now - 1000, tags: [['d', 'pair']], content: "first" }, author);
+    const edited = finalizeEvent({ kind: 31729, created_at: now - 500, tags: [['d', 'pair']], content: "edited" }, author);
+    const relay = new MockRelay();
+    relay.seed([
+      reaction(generateSecretKey(), '+', [['e', original.id], ['a', address]]),
+      reaction(generateSecretKey(), '+', [['e', edited.id], ['a', address]]),
+      reaction(generateSecretKey(), '-', [['e', edited.id]]),
+    ]);
+
+    const reactions = await fetchReactions({ id: edited.id, address }, createClient(relay, "mock://edited"));
+
+    expect(reactions).toHaveLength(3);
+    expect(getAgreementScore(reactions)).toBe(1);
+  });
+
+  it("counts each author's newest reaction and drops withdrawn ones", async () => {
+    const target = finalizeEvent({ kind: 1729, created_at: now - 1000, tags: [], content: "legacy" }, author);
+    const changedMind = generateSecretKey();
+    const withdrew = generateSecretKey();
+    const withdrawn = reaction(withdrew, '+', [['e', target.id]]);
+    const relay = new MockRelay();
+    relay.seed([
+      reaction(changedMind, '+', [['e', target.id]], now - 200),
+      reaction(changedMind, '-', [['e', target.id]], now - 100),
+      withdrawn,
+      finalizeEvent({ kind: 5, created_at: now - 50, tags: [['e', withdrawn.id], ['k', '7']], content: "" }, withdrew),
+    ]);
+
+    const reactions = await fetchReactions({ id: target.id }, createClient(relay, "mock://legacy"));
+
+    expect(reactions.map(r => r.content)).toEqual(['-']);
+  });
+
+  it('fails instead of reporting no reactions when no relay answers', async () => {
+    const client = new NostrClient({
+      transport: () => { throw new Error("offline"); },
+      relays: [{ url: "mock://offline", read: true, write: true }],
+      relayInfoLoader: async () => null,
+    });
+
+    await expect(fetchReactions({ id: "f".repeat(64) }, client)).rejects.toThrow();
+  });
+
+  it("keeps an author's vote alongside their emoji", async () => {
+    const target = finalizeEvent({ kind: 1729, created_at: now - 1000, tags: [], content: "votes and emojis" }, author);
+    const reader = generateSecretKey();
+    const relay = new MockRelay();
+    relay.seed([
+      reaction(reader, '+', [['e', target.id]], now - 300),
+      reaction(reader, '🤔', [['e', target.id]], now - 200),
+      reaction(reader, '📚', [['e', target.id]], now - 100),
+    ]);
+
+    const reactions = await fetchReactions({ id: target.id }, createClient(relay, "mock://votes-and-emojis"));
+
+    expect(summarizeReactions(reactions)).toMatchObject({ agree: 1, disagree: 0, emojis: { "📚": 1 } });
+  });
+});
+
+describe('summarizeReactions', () => {
+  const unsigned = (pubkey: string, content: string): NostrEvent =>
+    ({ kind: REACTION_KIND, pubkey, created_at: 1000, tags: [['e', "f".repeat(64)]], content });
+
+  it('counts agreements, disagreements and emojis, and finds the viewer\'s own', () => {
+    const reactions = [
+      unsigned("a", "+"),
+      unsigned("b", ""),
+      unsigned("c", "-"),
+      unsigned("d", "📚"),
+      unsigned("e", " 📚 "),
+    ];
+
+    expect(summarizeReactions(reactions, "c")).toEqual({
+      agree: 2,
+      disagree: 1,
+      emojis: { "📚": 2 },
+      own: [reactions[2]],
+    });
+    expect(getAgreementScore(reactions)).toBe(1);
+  });
+
+  it('reads an empty reaction as agreement', () => {
+    expect(normalizeReaction("")).toBe("+");
+    expect(normalizeReaction(" 🤔")).toBe("🤔");
+  });
+});
@@ -0,0 +1,339 @@
+import { useQuery, useQueries, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { toast } from "@/components/ui/use-toast";
+import {
+  NostrEvent,
+  SimilarityEvent,
+  NostrClient,
+  NostrFilter,
+  PublishResult,
+  nostrClient,
+  describePublishResult,
+  getAcceptedRelays,
+  getOutboxItemStatus,
+} from './nostr';
+import { isDeletedBy } from './eventStore';
+
+/**
+ * NIP-25 reactions on similarity events: "+" agrees, "-" disagrees, anything else is an emoji
+ */
+
+export const REACTION_KIND = 7;
+export const AGREE = '+';
+export const DISAGREE = '-';
+// Offered next to agree/disagree; any other emoji from other clients is counted too
+export const REACTION_EMOJIS = ['📚', '❤️', '🤔', '😂'];
+
+export interface ReactionSummary {
+  agree: number;
+  disagree: number;
+  // Emoji reactions and how often each was used
+  emojis: Record<string, number>;
+  // The viewer's current vote and emoji reaction, if any
+  own: NostrEvent[];
+}
+
+// Constants
+const REACTION_CACHE_TIME = 1000 * 60 * 5; // Reactions change more often than profiles
+const MAX_IDS_PER_FILTER = 50; // Event ids (or addresses) per `#e`/`#a` filter; larger lookups are split into chunks
+const REACTION_BATCH_DELAY = 50; // Wait this long for more lookups before sending a REQ
+const REACTION_FETCH_TIMEOUT = 10000;
+
+// What a reaction can point at: the event id, and for addressable similarities every version's address
+export type ReactionTarget = Pick<SimilarityEvent, 'id' | 'address'>;
+
+interface ReactionLookup {
+  target: ReactionTarget;
+  waiters: { resolve: (reactions: NostrEvent[]) => void; reject: (error: unknown) => void }[];
+}
+
+interface ReactionBatch {
+  lookups: Map<string, ReactionLookup>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Lookups waiting for the next batch, per client
+const pendingReactionBatches = new Map<NostrClient, ReactionBatch>();
+
+/**
+ * "+" for agreement, "-" for disagreement, otherwise the emoji; an empty reaction counts as "+" (NIP-25)
+ */
+export function normalizeReaction(content: string): string {
+  const trimmed = content.trim();
+  return trimmed === '' ? AGREE : trimmed;
+}
+
+/**
+ * Whether a reaction agrees or disagrees, as opposed to being an emoji
+ */
+export function isVote(content: string): boolean {
+  const reaction = normalizeReaction(content);
+  return reaction === AGREE || reaction === DISAGREE;
+}
+
+/**
+ * Reactions to an addressable similarity are kept under its address, so they survive edits
+ */
+export function getReactionKey(target: ReactionTarget): string {
+  return target.address || target.id;
+}
+
+// NIP-25: the reacted-to event is the last `e` tag, or its address in the last `a` tag
+function getReactionKeys(reaction: NostrEvent): string[] {
+  const last = (name: string) => reaction.tags.filter(tag => tag[0] === name && tag[1]).pop()?.[1];
+  return [last('a'), last('e')].filter((key): key is string => !!key);
+}
+
+/**
+ * Keep each author's newest vote and newest emoji; changing your mind replaces the earlier one
+ */
+function pickNewestReactions(reactions: NostrEvent[]): NostrEvent[] {
+  const newest = new Map<string, NostrEvent>();
+  for (const reaction of reactions) {
+    const key = `${reaction.pubkey}:${isVote(reaction.content) ? 'vote' : 'emoji'}`;
+    const current = newest.get(key);
+    if (!current || (reaction.created_at || 0) > (current.created_at || 0)) {
+      newest.set(key, reaction);
+    }
+  }
+  return [...newest.values()];
+}
+
+/**
+ * Count reactions and find the viewer's own
+ */
+export function summarizeReactions(reactions: NostrEvent[], viewerPubkey?: string | null): ReactionSummary {
+  const summary: ReactionSummary = { agree: 0, disagree: 0, emojis: {}, own: [] };
+  for (const reaction of reactions) {
+    const content = normalizeReaction(reaction.content);
+    if (content === AGREE) {
+      summary.agree++;
+    } else if (content === DISAGREE) {
+      summary.disagree++;
+    } else {
+      summary.emojis[content] = (summary.emojis[content] || 0) + 1;
+    }
+    if (viewerPubkey && reaction.pubkey === viewerPubkey) {
+      summary.own.push(reaction);
+    }
+  }
+  return summary;
+}
+
+/**
+ * Ranking signal for Explore: agreements minus disagreements
+ */
+export function getAgreementScore(reactions: NostrEvent[]): number {
+  const { agree, disagree } = summarizeReactions(reactions);
+  return agree - disagree;
+}
+
+/**
+ * Fetch reactions (and deletions of them) for a chunk of targets, by event id and by address
+ * Rejects when the relays could not be asked, so nobody mistakes that for "no reactions".
+ */
+async function fetchReactionChunk(client: NostrClient, targets: ReactionTarget[]): Promise<Map<string, NostrEvent[]>> {
+  const result = new Map<string, NostrEvent[]>(targets.map(target => [getReactionKey(target), []]));
+  // Reactions naming an old version's id (and no address) still count for the current one
+  const keysById = new Map(targets.map(target => [target.id, getReactionKey(target)]));
+
+  try {
+    const addresses = targets.map(target => target.address).filter((address): address is string => !!address);
+    const filters: NostrFilter[] = [{ kinds: [REACTION_KIND], '#e': targets.map(target => target.id) }];
+    if (addresses.length > 0) {
+      filters.push({ kinds: [REACTION_KIND], '#a': addresses });
+    }
+    const reactions = (await client.query(filters, { timeout: REACTION_FETCH_TIMEOUT }))
+      .filter(reaction => reaction.kind === REACTION_KIND);
+
+    // Withdrawn reactions are NIP-09 deletions pointing at the reaction
+    const reactionIds = reactions.map(reaction => reaction.id).filter((id): id is string => !!id);
+    const deletionFilters = [];
+    for (let i = 0; i < reactionIds.length; i += MAX_IDS_PER_FILTER) {
+      deletionFilters.push({ kinds: [5], '#e': reactionIds.slice(i, i + MAX_IDS_PER_FILTER) });
+    }
+    const deletions = deletionFilters.length > 0
+      ? await client.query(deletionFilters, { timeout: REACTION_FETCH_TIMEOUT })
+      : [];
+
+    const remaining = reactions.filter(reaction => !deletions.some(deletion => isDeletedBy(reaction, deletion)));
+    for (const reaction of remaining) {
+      const key = getReactionKeys(reaction)
+        .map(key => result.has(key) ? key : keysById.get(key))
+        .find(key => !!key);
+      result.get(key)?.push(reaction);
+    }
+    result.forEach((list, key) => result.set(key, pickNewestReactions(list)));
+    console.log(`Found ${remaining.length} reactions for ${targets.length} events`);
+  } catch (error) {
+    console.error("Error in reaction fetch:", error);
+    throw error;
+  }
+
+  return result;
+}
+
+/**
+ * Send every lookup queued since the last batch as chunked `#e`/`#a` filters
+ */
+async function flushReactionLookups(client: NostrClient): Promise<void> {
+  const { lookups } = pendingReactionBatches.get(client);
+  pendingReactionBatches.delete(client);
+
+  const targets = [...lookups.values()].map(lookup => lookup.target);
+  console.log(`Fetching reactions for ${targets.length} events`);
+
+  const chunks: ReactionTarget[][] = [];
+  for (let i = 0; i < targets.length; i += MAX_IDS_PER_FILTER) {
+    chunks.push(targets.slice(i, i + MAX_IDS_PER_FILTER));
+  }
+
+  await Promise.all(chunks.map(async chunk => {
+    const waiters = chunk.flatMap(target => lookups.get(getReactionKey(target))?.waiters ?? []);
+    try {
+      const reactions = await fetchReactionChunk(client, chunk);
+      chunk.forEach(target => {
+        const key = getReactionKey(target);
+        lookups.get(key)?.waiters.forEach(({ resolve }) => resolve(reactions.get(key) ?? []));
+      });
+    } catch (error) {
+      // The queries go into their error state and React Query retries them
+      waiters.forEach(({ reject }) => reject(error));
+    }
+  }));
+}
+
+/**
+ * Queue a reaction lookup; lookups made close together (e.g. by every card on screen) share one request
+ */
+export function fetchReactions(target: ReactionTarget, client: NostrClient = nostrClient): Promise<NostrEvent[]> {
+  let batch = pendingReactionBatches.get(client);
+  if (!batch) {
+    batch = { lookups: new Map(), timer: setTimeout(() => flushReactionLookups(client), REACTION_BATCH_DELAY) };
+    pendingReactionBatches.set(client, batch);
+  }
+  const { lookups } = batch;
+
+  return new Promise<NostrEvent[]>((resolve, reject) => {
+    const key = getReactionKey(target);
+    const lookup = lookups.get(key) || { target, waiters: [] };
+    lookup.waiters.push({ resolve, reject });
+    lookups.set(key, lookup);
+  });
+}
+
+const reactionsQuery = (target: ReactionTarget, client: NostrClient) => ({
+  queryKey: ['reactions', getReactionKey(target)],
+  queryFn: () => fetchReactions(target, client),
+  staleTime: REACTION_CACHE_TIME,
+});
+
+/**
+ * React Query hook for the reactions to one similarity, across its versions (each author's newest)
+ */
+export function useReactions(target: ReactionTarget, client: NostrClient = nostrClient) {
+  return useQuery({ ...reactionsQuery(target, client), enabled: !!target.id });
+}
+
+/**
+ * Agreement scores for many events at once, e.g. to rank a feed; null while any is loading
+ */
+export function useAgreementScores(
+  targets: ReactionTarget[],
+  enabled = true,
+  client: NostrClient = nostrClient
+): Record<string, number> | null {
+  return useQueries({
+    queries: targets.map(target => ({ ...reactionsQuery(target, client), enabled })),
+    combine: (results) => {
+      if (!enabled || results.some(result => result.isPending)) return null;
+      return Object.fromEntries(targets.map((target, i) => [target.id, getAgreementScore(results[i].data ?? [])]));
+    },
+  });
+}
+
+// Report a publish that no relay took and the outbox won't retry
+function reportUnpublished(client: NostrClient, result: PublishResult, title: string) {
+  const item = client.outbox.getItem(result.eventId);
+  const queued = !!item && getOutboxItemStatus(item) === 'pending';
+  if (getAcceptedRelays(result).length === 0 && !queued) {
+    toast({ title, description: describePublishResult(result), variant: "destructive" });
+  }
+}
+
+/**
+ * Publish a reaction to a similarity (NIP-25)
+ */
+export async function publishReaction(event: SimilarityEvent, content: string, client: NostrClient = nostrClient): Promise<NostrEvent> {
+  const tags = [['e', event.id], ['p', event.pubkey]];
+  if (event.address) {
+    tags.push(['a', event.address]);
+  }
+  tags.push(['k', String(event.kind)]);
+
+  const reaction = await client.signEvent({
+    kind: REACTION_KIND,
+    pubkey: await client.getPublicKey(),
+    created_at: Math.floor(Date.now() / 1000),
+    tags,
+    content,
+  });
+  const result = await client.outbox.send(reaction);
+  reportUnpublished(client, result, "Your reaction was not published");
+  return reaction;
+}
+
+/**
+ * Withdraw a reaction with a NIP-09 deletion
+ */
+export async function withdrawReaction(reaction: NostrEvent, client: NostrClient = nostrClient): Promise<void> {
+  const deletion = await client.signEvent({
+    kind: 5,
+    pubkey: reaction.pubkey,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [['e', reaction.id || ''], ['k', String(REACTION_KIND)]],
+    content: "",
+  });
+  const result = await client.outbox.send(deletion);
+  reportUnpublished(client, result, "Your reaction was not withdrawn");
+}
+
+/**
+ * Hook returning `react(content)`: reacting with your current reaction withdraws it,
+ * reacting differently replaces it (a vote replaces your vote, an emoji your emoji).
+ * The cached reactions update right away.
+ */
+export function useReact(event: SimilarityEvent, client: NostrClient = nostrClient) {
+  const queryClient = useQueryClient();
+
+  return useCallback(async (content: string) => {
+    const queryKey = ['reactions', getReactionKey(event)];
+    const pubkey = await client.getPublicKey();
+    const reactions = queryClient.getQueryData<NostrEvent[]>(queryKey) ?? [];
+    const own = reactions.find(reaction => reaction.pubkey === pubkey && isVote(reaction.content) === isVote(content));
+    const others = reactions.filter(reaction => reaction !== own);
+
+    try {
+      if (own && normalizeReaction(own.content) === normalizeReaction(content)) {
+        queryClient.setQueryData(queryKey, others);
+        await withdrawReaction(own, client);
+        return;
+      }
+
+      const reaction = await publishReaction(event, content, client);
+      queryClient.setQueryData(queryKey, [...others, reaction]);
+      if (own) {
+        // Newest wins anyway, but clients that count every reaction would see both
+        await withdrawReaction(own, client);
+      }
+    } catch (error) {
+      console.error("Failed to react:", error);
+      queryClient.setQueryData(queryKey, reactions);
+      toast({
+        title: "Reaction failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  }, [event, client, queryClient]);
+}
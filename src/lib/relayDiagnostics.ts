@@ -0,0 +1,177 @@
+// Frames kept for the traffic inspector; older ones are dropped
+const MAX_FRAMES = 1000;
+// NOTICE/CLOSED messages kept per relay
+const MAX_RELAY_MESSAGES = 20;
+// Long frames (e.g. events with big content) are cut in the log
+const MAX_FRAME_TEXT = 2000;
+// Published event ids remembered to match their OKs
+const MAX_PUBLISHED_IDS = 500;
+
+export type FrameDirection = 'in' | 'out';
+
+export interface FrameLogEntry {
+  seq: number;
+  time: number;
+  relayUrl: string;
+  direction: FrameDirection;
+  // First element of the frame, e.g. "REQ", "EVENT" or "EOSE"
+  type: string;
+  // Subscription id for REQ/CLOSE/EVENT/EOSE/CLOSED/NEG-* frames
+  subscriptionId: string | null;
+  text: string;
+}
+
+export interface RelayMessage {
+  time: number;
+  type: 'NOTICE' | 'CLOSED';
+  subscriptionId: string | null;
+  message: string;
+}
+
+export interface RelayDiagnosticsStats {
+  url: string;
+  // Milliseconds from opening the socket to the relay accepting it, for the latest connection
+  connectLatency: number | null;
+  connectedAt: number | null;
+  connectionCount: number;
+  // Milliseconds from REQ to EOSE, for the latest subscription and on average
+  lastEoseTime: number | null;
+  averageEoseTime: number | null;
+  eoseCount: number;
+  eventsReceived: number;
+  publishesAccepted: number;
+  publishesRejected: number;
+  framesIn: number;
+  framesOut: number;
+  messages: RelayMessage[];
+}
+
+// Frame types whose second element is a subscription id
+const SUBSCRIPTION_FRAMES = new Set(["REQ", "CLOSE", "EVENT", "EOSE", "CLOSED", "COUNT", "NEG-OPEN", "NEG-MSG", "NEG-CLOSE", "NEG-ERR"]);
+
+function createStats(url: string): RelayDiagnosticsStats {
+  return {
+    url,
+    connectLatency: null,
+    connectedAt: null,
+    connectionCount: 0,
+    lastEoseTime: null,
+    averageEoseTime: null,
+    eoseCount: 0,
+    eventsReceived: 0,
+    publishesAccepted: 0,
+    publishesRejected: 0,
+    framesIn: 0,
+    framesOut: 0,
+    messages: [],
+  };
+}
+
+/**
+ * Records relay traffic for the /relays diagnostics page
+ * Fed with every frame the pool sends and receives; everything else is derived from them.
+ */
+export class RelayDiagnostics {
+  private frames: FrameLogEntry[] = [];
+  private stats = new Map<string, RelayDiagnosticsStats>();
+  // When each REQ went out, by relay and subscription id, to time its EOSE
+  private reqSentAt = new Map<string, number>();
+  // EVENTs we published, so OKs for AUTH events are not counted as publishes
+  private publishedIds = new Set<string>();
+  private seq = 0;
+
+  private getStats(url: string): RelayDiagnosticsStats {
+    let stats = this.stats.get(url);
+    if (!stats) {
+      stats = createStats(url);
+      this.stats.set(url, stats);
+    }
+    return stats;
+  }
+
+  recordConnect(url: string, latency: number): void {
+    const stats = this.getStats(url);
+    stats.connectLatency = latency;
+    stats.connectedAt = Date.now();
+    stats.connectionCount++;
+  }
+
+  recordFrame(url: string, direction: FrameDirection, frame: unknown[]): void {
+    const type = typeof frame[0] === 'string' ? frame[0] : '?';
+    const subscriptionId = SUBSCRIPTION_FRAMES.has(type) && typeof frame[1] === 'string' ? frame[1] : null;
+    const stats = this.getStats(url);
+    const now = Date.now();
+
+    let text = JSON.stringify(frame);
+    if (text.length > MAX_FRAME_TEXT) {
+      text = `${text.slice(0, MAX_FRAME_TEXT)}…`;
+    }
+    this.frames.push({ seq: ++this.seq, time: now, relayUrl: url, direction, type, subscriptionId, text });
+    if (this.frames.length > MAX_FRAMES) {
+      this.frames.splice(0, this.frames.length - MAX_FRAMES);
+    }
+
+    if (direction === 'out') {
+      stats.framesOut++;
+      if (type === "REQ" && subscriptionId) {
+        this.reqSentAt.set(`${url} ${subscriptionId}`, now);
+      } else if (type === "CLOSE" && subscriptionId) {
+        this.reqSentAt.delete(`${url} ${subscriptionId}`);
+      } else if (type === "EVENT") {
+        const id = (frame[1] as { id?: string })?.id;
+        if (id) this.publishedIds.add(id);
+        if (this.publishedIds.size > MAX_PUBLISHED_IDS) {
+          this.publishedIds.delete(this.publishedIds.values().next().value);
+        }
+      }
+      return;
+    }
+
+    stats.framesIn++;
+    if (type === "EVENT") {
+      stats.eventsReceived++;
+    } else if (type === "EOSE" && subscriptionId) {
+      const key = `${url} ${subscriptionId}`;
+      const sentAt = this.reqSentAt.get(key);
+      if (sentAt !== undefined) {
+        this.reqSentAt.delete(key);
+        const elapsed = now - sentAt;
+        stats.averageEoseTime = ((stats.averageEoseTime ?? 0) * stats.eoseCount + elapsed) / (stats.eoseCount + 1);
+        stats.lastEoseTime = elapsed;
+        stats.eoseCount++;
+      }
+    } else if (type === "OK" && typeof frame[1] === 'string' && this.publishedIds.has(frame[1])) {
+      if (frame[2] === true) {
+        stats.publishesAccepted++;
+      } else {
+        stats.publishesRejected++;
+      }
+    } else if (type === "NOTICE" || type === "CLOSED") {
+      if (subscriptionId) this.reqSentAt.delete(`${url} ${subscriptionId}`);
+      const message = String((type === "NOTICE" ? frame[1] : frame[2]) ?? '');
+      const entry: RelayMessage = { time: now, type, subscriptionId, message };
+      stats.messages = [entry, ...stats.messages].slice(0, MAX_RELAY_MESSAGES);
+    }
+  }
+
+  /**
+   * Recorded frames, oldest first, optionally only those of one subscription
+   * Split REQs ("<id>:<n>") count as part of their subscription
+   */
+  getFrames(subscriptionId?: string): FrameLogEntry[] {
+    const filter = subscriptionId?.trim();
+    if (!filter) return [...this.frames];
+    return this.frames.filter(frame =>
+      frame.subscriptionId === filter || frame.subscriptionId?.startsWith(`${filter}:`)
+    );
+  }
+
+  getRelayStats(url: string): RelayDiagnosticsStats {
+    const stats = this.getStats(url);
+    return { ...stats, messages: [...stats.messages] };
+  }
+
+  clearFrames(): void {
+    this.frames = [];
+  }
+}
@@ -0,0 +1,77 @@
+// Machine-readable prefixes relays put on OK and CLOSED messages (NIP-01, NIP-42)
+export const RELAY_MESSAGE_PREFIXES = [
+  'duplicate',
+  'pow',
+  'blocked',
+  'rate-limited',
+  'invalid',
+  'restricted',
+  'mute',
+  'error',
+  'auth-required',
+] as const;
+
+export type RelayMessagePrefix = typeof RELAY_MESSAGE_PREFIXES[number];
+
+export interface ParsedRelayMessage {
+  // null when the relay did not use a standard prefix
+  prefix: RelayMessagePrefix | null;
+  // The human-readable part after the prefix
+  reason: string;
+}
+
+/**
+ * Split a relay message like "rate-limited: slow down" into prefix and reason
+ */
+export function parseRelayMessage(message: string): ParsedRelayMessage {
+  const match = /^([a-z-]+):\s*(.*)$/s.exec(message.trim());
+  if (match && (RELAY_MESSAGE_PREFIXES as readonly string[]).includes(match[1])) {
+    return { prefix: match[1] as RelayMessagePrefix, reason: match[2] };
+  }
+  return { prefix: null, reason: message.trim() };
+}
+
+/**
+ * Whether a NOTICE is a relay asking us to slow down
+ * NOTICEs have no standard format, so this also matches common wordings
+ */
+export function isRateLimitNotice(message: string): boolean {
+  return parseRelayMessage(message).prefix === 'rate-limited'
+    || /rate.?limit|too many|slow down/i.test(message);
+}
+
+/**
+ * A relay refused or dropped a request
+ */
+export class RelayError extends Error {
+  readonly relayUrl: string;
+  readonly prefix: RelayMessagePrefix | null;
+  readonly reason: string;
+
+  constructor(relayUrl: string, message: string) {
+    const { prefix, reason } = parseRelayMessage(message);
+    super(`${relayUrl}: ${message || "request failed"}`);
+    this.name = 'RelayError';
+    this.relayUrl = relayUrl;
+    this.prefix = prefix;
+    this.reason = reason;
+  }
+
+  // Rate limits clear up by themselves; everything else needs a different request
+  get isRetryable(): boolean {
+    return this.prefix === 'rate-limited';
+  }
+}
+
+/**
+ * A query where no relay returned results and every one of them failed
+ */
+export class QueryError extends Error {
+  readonly errors: RelayError[];
+
+  constructor(errors: RelayError[]) {
+    super(`No relay answered the query. ${errors.map(error => error.message).join('; ')}`);
+    this.name = 'QueryError';
+    this.errors = errors;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Limits a relay announces in its NIP-11 document; any of them may be missing
+ */
+export interface RelayLimitation {
+  max_message_length?: number;
+  max_subscriptions?: number;
+  max_filters?: number;
+  max_limit?: number;
+  max_subid_length?: number;
+  max_event_tags?: number;
+  max_content_length?: number;
+  auth_required?: boolean;
+  payment_required?: boolean;
+  restricted_writes?: boolean;
+}
+
+/**
+ * NIP-11 relay information document
+ */
+export interface RelayInfo {
+  name?: string;
+  description?: string;
+  icon?: string;
+  pubkey?: string;
+  contact?: string;
+  software?: string;
+  version?: string;
+  supported_nips?: number[];
+  limitation?: RelayLimitation;
+  payments_url?: string;
+}
+
+// Loads the NIP-11 document of a relay; resolves to null when it has none
+export type RelayInfoLoader = (url: string) => Promise<RelayInfo | null>;
+
+const STORAGE_KEY = 'similarteia-relay-info';
+// Documents rarely change; refetch them after a few hours
+const INFO_TTL = 6 * 60 * 60 * 1000;
+// Don't ask a relay without a document again for a while
+const MISSING_INFO_TTL = 10 * 60 * 1000;
+const FETCH_TIMEOUT = 3000;
+
+interface CachedInfo {
+  info: RelayInfo | null;
+  fetchedAt: number;
+}
+
+const infoCache = new Map<string, CachedInfo>();
+const inFlightInfo = new Map<string, Promise<RelayInfo | null>>();
+let storageLoaded = false;
+
+function loadStoredInfo(): void {
+  if (storageLoaded) return;
+  storageLoaded = true;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Record<string, CachedInfo>;
+    for (const [url, entry] of Object.entries(stored)) {
+      if (entry && Date.now() - entry.fetchedAt < INFO_TTL) {
+        infoCache.set(url, entry);
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to read cached relay information:", error);
+  }
+}
+
+function storeInfo(): void {
+  try {
+    // Only documents are persisted; missing ones are retried on the next visit
+    const entries = [...infoCache.entries()].filter(([, entry]) => entry.info !== null);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    console.warn("Failed to cache relay information:", error);
+  }
+}
+
+/**
+ * The HTTP(S) URL serving a relay's NIP-11 document
+ */
+export function getRelayInfoUrl(relayUrl: string): string {
+  return relayUrl.replace(/^ws(s?):\/\//, 'http$1://');
+}
+
+/**
+ * Fetch a relay's NIP-11 document over HTTP
+ */
+export async function fetchRelayInfo(relayUrl: string): Promise<RelayInfo | null> {
+  if (!/^wss?:\/\//.test(relayUrl)) return null;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  try {
+    const response = await fetch(getRelayInfoUrl(relayUrl), {
+      headers: { Accept: 'application/nostr+json' },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      console.log(`${relayUrl} has no relay information document (${response.status})`);
+      return null;
+    }
+
+    const info = await response.json();
+    return info && typeof info === 'object' && !Array.isArray(info) ? info as RelayInfo : null;
+  } catch (error) {
+    console.log(`Could not load relay information for ${relayUrl}:`, error instanceof Error ? error.message : error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Cached NIP-11 document of a relay, fetched at most once at a time
+ * Never rejects: relays without a document resolve to null
+ */
+export function getRelayInfo(relayUrl: string, loader: RelayInfoLoader = fetchRelayInfo): Promise<RelayInfo | null> {
+  loadStoredInfo();
+
+  const cached = infoCache.get(relayUrl);
+  const ttl = cached?.info ? INFO_TTL : MISSING_INFO_TTL;
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return Promise.resolve(cached.info);
+  }
+
+  const inFlight = inFlightInfo.get(relayUrl);
+  if (inFlight) return inFlight;
+
+  const promise = loader(relayUrl)
+    .catch(() => null)
+    .then((info) => {
+      infoCache.set(relayUrl, { info, fetchedAt: Date.now() });
+      inFlightInfo.delete(relayUrl);
+      storeInfo();
+      return info;
+    });
+  inFlightInfo.set(relayUrl, promise);
+  return promise;
+}
+
+/**
+ * The relay's document if it is already cached, without fetching
+ */
+export function getCachedRelayInfo(relayUrl: string): RelayInfo | null {
+  loadStoredInfo();
+  return infoCache.get(relayUrl)?.info ?? null;
+}
+
+export function supportsNip(info: RelayInfo | null, nip: number): boolean {
+  return !!info?.supported_nips?.includes(nip);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { finalizeEvent, generateSecretKey, getPublicKey, type EventTemplate } from 'nostr-tools';
+import { MockRelay } from './mockRelay';
+import { NostrClient } from './nostrClient';
+import { RELAY_LIST_KIND, buildRelayListTags, isValidRelayUrl, parseRelayListEvent, saveRelayList } from './relayList';
+import type { NostrEvent } from './nostr';
+
+const OLD_RELAY = "wss://old.example";
+const NEW_RELAY = "wss://new.example";
+
+describe('saveRelayList', () => {
+  it('publishes the new list to the old relays too, then switches to the new ones', async () => {
+    const relays: Record<string, MockRelay> = { [OLD_RELAY]: new MockRelay(), [NEW_RELAY]: new MockRelay() };
+    const secretKey = generateSecretKey();
+    const client = new NostrClient({
+      transport: (url) => relays[url].connect(url),
+      relays: [{ url: OLD_RELAY, read: true, write: true }],
+      relayInfoLoader: async () => null,
+      signer: {
+        getPublicKey: async () => getPublicKey(secretKey),
+        signEvent: async (event: NostrEvent) => finalizeEvent(event as EventTemplate, secretKey),
+      },
+    });
+
+    const result = await saveRelayList([{ url: NEW_RELAY, read: true, write: true }], client);
+
+    expect(result.relays.map(relay => [relay.url, relay.status]).sort()).toEqual([
+      [NEW_RELAY, 'accepted'],
+      [OLD_RELAY, 'accepted'],
+    ]);
+    for (const relay of Object.values(relays)) {
+      expect(relay.getEvents().map(event => event.kind)).toEqual([RELAY_LIST_KIND]);
+    }
+    expect(client.pool.getRelayConfigs()).toEqual([{ url: NEW_RELAY, read: true, write: true }]);
+  });
+
+  it('refuses a list without a write relay', async () => {
+    const client = new NostrClient({ transport: () => { throw new Error("no network"); }, relays: [] });
+    await expect(saveRelayList([{ url: NEW_RELAY, read: true, write: false }], client))
+      .rejects.toThrow("At least one write relay is required");
+  });
+});
+
+describe('relay list tags', () => {
+  it('round-trips read and write markers', () => {
+    const relays = [
+      { url: "wss://both.example", read: true, write: true },
+      { url: "wss://read.example", read: true, write: false },
+      { url: "wss://write.example", read: false, write: true },
+    ];
+    const tags = buildRelayListTags(relays);
+
+    expect(tags).toEqual([
+      ['r', "wss://both.example"],
+      ['r', "wss://read.example", 'read'],
+      ['r', "wss://write.example", 'write'],
+    ]);
+    expect(parseRelayListEvent({ kind: RELAY_LIST_KIND, pubkey: "", created_at: 0, content: "", tags })).toEqual(relays);
+  });
+
+  it('merges repeated relays and skips invalid URLs', () => {
+    const tags = [
+      ['r', "wss://relay.example", 'read'],
+      ['r', "wss://relay.example/", 'write'],
+      ['r', "https://not-a-relay.example"],
+      ['p', "wss://other.example"],
+    ];
+
+    expect(parseRelayListEvent({ kind: RELAY_LIST_KIND, pubkey: "", created_at: 0, content: "", tags }))
+      .toEqual([{ url: "wss://relay.example", read: true, write: true }]);
+    expect(isValidRelayUrl("ws://localhost:7777")).toBe(true);
+    expect(isValidRelayUrl("relay.example")).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import { NostrEvent, NostrClient, nostrClient } from './nostr';
+import { normalizeRelayUrl, type RelayConfig, type PublishResult } from './relayPool';
+
+// NIP-65 relay list metadata
+export const RELAY_LIST_KIND = 10002;
+
+const LOCAL_STORAGE_RELAYS_KEY = 'similarteia_relays';
+const RELAY_LIST_FETCH_TIMEOUT = 5000;
+
+interface StoredRelayList {
+  pubkey: string;
+  createdAt: number;
+  relays: RelayConfig[];
+}
+
+/**
+ * Check that a string is a usable relay WebSocket URL
+ */
+export function isValidRelayUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === 'wss:' || parsed.protocol === 'ws:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the `r` tags of a kind 10002 event into relay configs
+ * A tag without a marker means the relay is used for both reading and writing
+ */
+export function parseRelayListEvent(event: NostrEvent): RelayConfig[] {
+  const relays = new Map<string, RelayConfig>();
+
+  for (const tag of event.tags) {
+    if (tag[0] !== 'r' || !tag[1] || !isValidRelayUrl(tag[1])) continue;
+
+    const url = normalizeRelayUrl(tag[1]);
+    const marker = tag[2];
+    const existing = relays.get(url) || { url, read: false, write: false };
+
+    relays.set(url, {
+      url,
+      read: existing.read || marker !== 'write',
+      write: existing.write || marker !== 'read',
+    });
+  }
+
+  return [...relays.values()];
+}
+
+/**
+ * Build the `r` tags for a kind 10002 event
+ */
+export function buildRelayListTags(relays: RelayConfig[]): string[][] {
+  return relays
+    .filter(relay => relay.read || relay.write)
+    .map(relay => {
+      if (relay.read && relay.write) return ['r', relay.url];
+      return ['r', relay.url, relay.read ? 'read' : 'write'];
+    });
+}
+
+function loadStoredRelayList(pubkey: string): StoredRelayList | null {
+  try {
+    const saved = localStorage.getItem(LOCAL_STORAGE_RELAYS_KEY);
+    if (!saved) return null;
+
+    const stored: StoredRelayList = JSON.parse(saved);
+    return stored.pubkey === pubkey ? stored : null;
+  } catch (error) {
+    console.error("Failed to read stored relay list:", error);
+    return null;
+  }
+}
+
+function saveStoredRelayList(stored: StoredRelayList): void {
+  localStorage.setItem(LOCAL_STORAGE_RELAYS_KEY, JSON.stringify(stored));
+}
+
+/**
+ * Clear the locally cached relay list
+ */
+export function clearStoredRelayList(): void {
+  localStorage.removeItem(LOCAL_STORAGE_RELAYS_KEY);
+}
+
+/**
+ * Fetch the newest kind 10002 event for a user from the relays in the pool
+ */
+export async function fetchRelayList(pubkey: string, client: NostrClient = nostrClient): Promise<NostrEvent | null> {
+  console.log(`Fetching relay list for ${pubkey.slice(0, 6)}...`);
+
+  const events = await client.query(
+    { kinds: [RELAY_LIST_KIND], authors: [pubkey] },
+    { timeout: RELAY_LIST_FETCH_TIMEOUT }
+  );
+
+  // Kind 10002 is replaceable, so only the newest version counts
+  return events.find(event => event.pubkey === pubkey && event.kind === RELAY_LIST_KIND) || null;
+}
+
+/**
+ * Configure the relay pool for a user: use the locally cached list right away,
+ * then refresh it from their kind 10002 event. Falls back to the default relays.
+ */
+export async function setupUserRelays(pubkey: string, client: NostrClient = nostrClient): Promise<RelayConfig[]> {
+  const { pool } = client;
+  const stored = loadStoredRelayList(pubkey);
+  pool.setRelays(stored?.relays.length ? stored.relays : pool.getDefaultRelays());
+
+  try {
+    const event = await fetchRelayList(pubkey, client);
+    const relays = event ? parseRelayListEvent(event) : [];
+
+    if (event && relays.length > 0 && (event.created_at || 0) >= (stored?.createdAt || 0)) {
+      console.log(`Using ${relays.length} relays from relay list of ${pubkey.slice(0, 6)}...`);
+      saveStoredRelayList({ pubkey, createdAt: event.created_at || 0, relays });
+      pool.setRelays(relays);
+    } else if (!event && !stored) {
+      console.log(`No relay list found for ${pubkey.slice(0, 6)}..., using default relays`);
+    }
+  } catch (error) {
+    console.error("Failed to load relay list:", error);
+  }
+
+  return pool.getRelayConfigs();
+}
+
+/**
+ * Reset the relay pool to the default relays (e.g. on logout)
+ */
+export function resetRelays(client: NostrClient = nostrClient): void {
+  clearStoredRelayList();
+  client.pool.setRelays(client.pool.getDefaultRelays());
+}
+
+/**
+ * Sign and publish a new kind 10002 relay list, then apply it to the pool
+ */
+export async function saveRelayList(relays: RelayConfig[], client: NostrClient = nostrClient): Promise<PublishResult> {
+  const active = relays.filter(relay => relay.read || relay.write);
+  if (active.length === 0) {
+    throw new Error("At least one relay is required");
+  }
+  if (!active.some(relay => relay.write)) {
+    throw new Error("At least one write relay is required");
+  }
+
+  const pubkey = await client.getPublicKey();
+  const createdAt = Math.floor(Date.now() / 1000);
+
+  const event: NostrEvent = {
+    pubkey,
+    kind: RELAY_LIST_KIND,
+    created_at: createdAt,
+    tags: buildRelayListTags(active),
+    content: '',
+  };
+
+  const signedEvent = await client.signEvent(event);
+
+  // Publish to the old write relays as well as the new ones: clients that still
+  // read the old list from there need to find the new one
+  const previous = client.pool.getRelayConfigs();
+  const publishTo = [...new Set([...previous, ...active].filter(relay => relay.write).map(relay => normalizeRelayUrl(relay.url)))];
+  client.pool.setRelays([...previous, ...active]);
+
+  try {
+    return await client.publish(signedEvent, publishTo);
+  } finally {
+    client.pool.setRelays(active);
+    saveStoredRelayList({ pubkey, createdAt, relays: client.pool.getRelayConfigs() });
+  }
+}
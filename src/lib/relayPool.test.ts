@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from 'vitest';
+import { finalizeEvent, generateSecretKey, nip42 } from 'nostr-tools';
+import { RelayPool, checkEventLimits, shapeFilters, type NostrFilter } from './relayPool';
+import { MockRelay, MOCK_RELAY_URL, createInMemoryTransport } from './mockRelay';
+import type { RelayInfo } from './relayInfo';
+import type { Transport } from './nostrTransport';
+import type { NostrEvent } from './nostr';
+
+// Verification fails outright (as when the worker breaks) for events with this content
+const UNVERIFIABLE = "verification throws";
+vi.mock('./eventVerifier', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./eventVerifier')>();
+  return {
+    ...actual,
+    verifyNostrEvent: async (event: NostrEvent, relayUrl?: string) => {
+      if (event.content === UNVERIFIABLE) throw new Error("worker crashed");
+      return actual.verifyNostrEvent(event, relayUrl);
+    },
+  };
+});
+
+const withLimits = (limitation: RelayInfo['limitation']): RelayInfo => ({ limitation });
+const reqSize = (filters: NostrFilter[]) => new TextEncoder().encode(JSON.stringify(["REQ", "sub", ...filters])).length;
+// Transport to several mock relays that records the frames sent to each
+function recordingTransport(relays: Record<string, MockRelay>, sent: Record<string, unknown[][]>): Transport {
+  return (url) => {
+    const socket = relays[url].connect(url);
+    const send = socket.send.bind(socket);
+    socket.send = (data: string) => {
+      (sent[url] ??= []).push(JSON.parse(data));
+      send(data);
+    };
+    return socket;
+  };
+}
+
+const authors = (count: number) => Array.from({ length: count }, (_, i) => i.toString(16).padStart(64, '0'));
+
+describe('shapeFilters', () => {
+  it('leaves filters alone for relays without limits', () => {
+    const filters = [{ kinds: [1], limit: 1000 }];
+    expect(shapeFilters(filters, null)).toEqual([filters]);
+    expect(shapeFilters(filters, {})).toEqual([filters]);
+  });
+
+  it('clamps limit to max_limit', () => {
+    expect(shapeFilters([{ kinds: [1], limit: 1000 }, { kinds: [2], limit: 10 }], withLimits({ max_limit: 100 })))
+      .toEqual([[{ kinds: [1], limit: 100 }, { kinds: [2], limit: 10 }]]);
+  });
+
+  it('groups filters into REQs of at most max_filters', () => {
+    const filters = [1, 2, 3, 4, 5].map(kind => ({ kinds: [kind] }));
+    const groups = shapeFilters(filters, withLimits({ max_filters: 2 }));
+
+    expect(groups.map(group => group.length)).toEqual([2, 2, 1]);
+    expect(groups.flat()).toEqual(filters);
+  });
+
+  it('splits filters whose REQ would exceed max_message_length', () => {
+    const filter = { kinds: [0], authors: authors(40) };
+    const groups = shapeFilters([filter], withLimits({ max_message_length: 1024 }), "sub");
+
+    expect(groups.length).toBeGreaterThan(1);
+    groups.forEach(group => expect(reqSize(group)).toBeLessThanOrEqual(1024));
+    expect(groups.flat().flatMap(part => part.authors)).toEqual(filter.authors);
+  });
+
+  it('keeps a filter that cannot be split', () => {
+    const filter = { kinds: [1], search: "x".repeat(2000) };
+    expect(shapeFilters([filter], withLimits({ max_message_length: 1024 }))).toEqual([[filter]]);
+  });
+});
+
+describe('checkEventLimits', () => {
+  const event: NostrEvent = { kind: 1, pubkey: "a".repeat(64), created_at: 0, tags: [['t', 'a'], ['t', 'b']], content: "hello" };
+
+  it('accepts events within the limits', () => {
+    expect(checkEventLimits(event, withLimits({ max_event_tags: 2, max_content_length: 5 }))).toBeNull();
+  });
+
+  it('names the limit an event breaks', () => {
+    expect(checkEventLimits(event, withLimits({ max_event_tags: 1 }))).toMatch(/^invalid: event has 2 tags/);
+    expect(checkEventLimits(event, withLimits({ max_content_length: 4 }))).toMatch(/^invalid: content is longer/);
+    expect(checkEventLimits(event, withLimits({ max_message_length: 50 }))).toMatch(/^invalid: event is \d+ bytes/);
+  });
+});
+
+describe('RelayPool.query', () => {
+  it('still finishes at EOSE when verifying an event fails', async () => {
+    const secretKey = generateSecretKey();
+    const good = finalizeEvent({ kind: 1, created_at: 1000, tags: [], content: "fine" }, secretKey);
+    const bad = finalizeEvent({ kind: 1, created_at: 1001, tags: [], content: UNVERIFIABLE }, secretKey);
+    const relay = new MockRelay();
+    relay.seed([good, bad]);
+    const pool = new RelayPool([{ url: MOCK_RELAY_URL, read: true, write: true }], createInMemoryTransport(relay));
+    pool.setRelayInfoLoader(async () => relay.getInfo());
+
+    const started = Date.now();
+    const events = await pool.query([{ kinds: [1] }], { timeout: 5000 });
+
+    expect(events.map(event => event.id)).toEqual([good.id]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('RelayPool reconnects', () => {
+  it('replays a live subscription from the newest event that relay sent', async () => {
+    const secretKey = generateSecretKey();
+    const note = (created_at: number, content: string) => finalizeEvent({ kind: 1, created_at, tags: [], content }, secretKey);
+    const fast = new MockRelay();
+    const dropped = new MockRelay();
+    fast.seed([note(2000, "newer, on the other relay")]);
+    dropped.seed([note(1000, "before the drop")]);
+    const sent: Record<string, unknown[][]> = {};
+    const urls = ["mock://fast", "mock://dropped"];
+    const pool = new RelayPool(urls.map(url => ({ url, read: true, write: true })),
+      recordingTransport({ "mock://fast": fast, "mock://dropped": dropped }, sent));
+    pool.setRelayInfoLoader(async () => null);
+
+    const received: string[] = [];
+    let eose!: () => void;
+    const eosed = new Promise<void>(resolve => { eose = resolve; });
+    const unsubscribe = pool.subscribe([{ kinds: [1] }], { onEvent: event => received.push(event.content), onEose: () => eose() }, urls);
+    await eosed;
+
+    dropped.disconnectAll();
+    // Stored while we were disconnected, older than the other relay's newest event
+    dropped.seed([note(1500, "missed while disconnected")]);
+    await vi.waitFor(() => expect(received).toContain("missed while disconnected"), { timeout: 3000 });
+    unsubscribe();
+
+    const reqs = sent["mock://dropped"].filter(frame => frame[0] === "REQ");
+    expect(reqs).toHaveLength(2);
+    expect(reqs[1][2]).toEqual({ kinds: [1], since: 1000 });
+    expect(received.sort()).toEqual(["before the drop", "missed while disconnected", "newer, on the other relay"]);
+  });
+
+  it('does not replay a subscription the relay closed for good', async () => {
+    const relay = new MockRelay({ limitation: { max_filters: 1 } });
+    const sent: Record<string, unknown[][]> = {};
+    // No NIP-11 document, so the pool can't know to split the filters
+    const pool = new RelayPool([{ url: "mock://refuses", read: true, write: true }], recordingTransport({ "mock://refuses": relay }, sent));
+    pool.setRelayInfoLoader(async () => null);
+
+    const onError = vi.fn();
+    const unsubscribe = pool.subscribe([{ kinds: [1] }, { kinds: [2] }], { onEvent: () => {}, onError });
+    await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+
+    relay.disconnectAll();
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    unsubscribe();
+
+    expect(sent["mock://refuses"].filter(frame => frame[0] === "REQ")).toHaveLength(1);
+  });
+
+  it('finishes a query whose relay dropped before EOSE', async () => {
+    const relay = new MockRelay();
+    // The connection drops as soon as the REQ goes out, so the relay never answers it
+    const transport: Transport = url => {
+      const socket = relay.connect(url);
+      socket.send = () => relay.disconnectAll();
+      return socket;
+    };
+    const pool = new RelayPool([{ url: "mock://drops", read: true, write: true }], transport);
+    pool.setRelayInfoLoader(async () => null);
+
+    const started = Date.now();
+    const events = await pool.query([{ kinds: [1] }], { timeout: 5000 });
+
+    expect(events).toEqual([]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('RelayPool.setRelays', () => {
+  it('stops waiting for EOSE from a relay that is no longer read', async () => {
+    const relay = new MockRelay();
+    const sent: Record<string, unknown[][]> = {};
+    const recording = recordingTransport({ "mock://answers": relay }, sent);
+    // A relay whose connection never opens, so it never sends EOSE
+    const transport: Transport = url => url === "mock://silent"
+      ? { url, readyState: 0, onopen: null, onmessage: null, onclose: null, onerror: null, send: () => {}, close: () => {} }
+      : recording(url);
+    const pool = new RelayPool([
+      { url: "mock://answers", read: true, write: true },
+      { url: "mock://silent", read: true, write: true },
+    ], transport);
+    pool.setRelayInfoLoader(async () => null);
+
+    const onEose = vi.fn();
+    const unsubscribe = pool.subscribe([{ kinds: [1] }], { onEvent: () => {}, onEose });
+    await vi.waitFor(() => expect(sent["mock://answers"]?.some(frame => frame[0] === "REQ")).toBe(true));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(onEose).not.toHaveBeenCalled();
+
+    pool.setRelays([
+      { url: "mock://answers", read: true, write: true },
+      { url: "mock://silent", read: false, write: true },
+    ]);
+
+    expect(onEose).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+});
+
+describe('RelayPool.publish', () => {
+  it('answers every caller publishing the same event at once', async () => {
+    const relay = new MockRelay();
+    const pool = new RelayPool([{ url: "mock://publish-twice", read: true, write: true }], createInMemoryTransport(relay));
+    pool.setRelayInfoLoader(async () => null);
+    const event = finalizeEvent({ kind: 1, created_at: 1000, tags: [], content: "twice" }, generateSecretKey());
+
+    const results = await Promise.all([pool.publish(event), pool.publish(event)]);
+
+    expect(results.map(result => result.relays.map(r => r.status))).toEqual([['accepted'], ['accepted']]);
+  });
+});
+
+describe('RelayPool NIP-42 AUTH', () => {
+  const secretKey = generateSecretKey();
+  const signAuth = async (url: string, challenge: string) => finalizeEvent(nip42.makeAuthEvent(url, challenge), secretKey);
+
+  function createPool(relay: MockRelay, url: string, sent: Record<string, unknown[][]>): RelayPool {
+    const pool = new RelayPool([{ url, read: true, write: true }], recordingTransport({ [url]: relay }, sent));
+    pool.setRelayInfoLoader(async () => null);
+    pool.setAuthSigner(signAuth);
+    return pool;
+  }
+
+  it('answers the challenge and resends a REQ closed with auth-required', async () => {
+    const relay = new MockRelay({ authRequired: true });
+    const note = finalizeEvent({ kind: 1, created_at: 1000, tags: [], content: "members only" }, secretKey);
+    relay.seed([note]);
+    const sent: Record<string, unknown[][]> = {};
+    const pool = createPool(relay, "mock://auth-req", sent);
+
+    const events = await pool.query([{ kinds: [1] }], { timeout: 3000 });
+
+    expect(events.map(event => event.id)).toEqual([note.id]);
+    expect(sent["mock://auth-req"].map(frame => frame[0])).toEqual(["REQ", "AUTH", "REQ", "CLOSE"]);
+  });
+
+  it('answers the challenge and resends an EVENT refused with auth-required', async () => {
+    const relay = new MockRelay({ authRequired: true });
+    const sent: Record<string, unknown[][]> = {};
+    const pool = createPool(relay, "mock://auth-event", sent);
+    const note = finalizeEvent({ kind: 1, created_at: 1000, tags: [], content: "let me in" }, secretKey);
+
+    const result = await pool.publish(note);
+
+    expect(result.relays.map(r => r.status)).toEqual(['accepted']);
+    expect(relay.getEvents().map(event => event.id)).toEqual([note.id]);
+    expect(sent["mock://auth-event"].map(frame => frame[0])).toEqual(["EVENT", "AUTH", "EVENT"]);
+  });
+
+  it('gives up on a relay when there is nobody to sign the AUTH', async () => {
+    const relay = new MockRelay({ authRequired: true });
+    const pool = createPool(relay, "mock://auth-anonymous", {});
+    pool.setAuthSigner(null);
+
+    const result = await pool.publish(finalizeEvent({ kind: 1, created_at: 1000, tags: [], content: "anonymous" }, secretKey));
+
+    expect(result.relays).toEqual([expect.objectContaining({ status: 'rejected', prefix: 'auth-required' })]);
+    expect(relay.getEvents()).toEqual([]);
+  });
+});
@@ -0,0 +1,1345 @@
+import type { Filter } from 'nostr-tools';
+import type { NostrEvent } from './nostr';
+import { verifyNostrEvent } from './eventVerifier';
+import { QueryError, RelayError, isRateLimitNotice, parseRelayMessage, type RelayMessagePrefix } from './relayErrors';
+import { SOCKET_CONNECTING, SOCKET_OPEN, browserWebSocketTransport, type Transport, type TransportSocket } from './nostrTransport';
+import { Negentropy, type NegentropyStorage } from './negentropy';
+import { RelayDiagnostics } from './relayDiagnostics';
+import { fetchRelayInfo, getCachedRelayInfo, getRelayInfo, supportsNip, type RelayInfo, type RelayInfoLoader } from './relayInfo';
+
+export type NostrFilter = Filter;
+
+export interface RelayConfig {
+  url: string;
+  read: boolean;
+  write: boolean;
+}
+
+export type RelayStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface SubscriptionHandlers {
+  onEvent: (event: NostrEvent, relayUrl: string) => void;
+  // Called once every read relay has sent EOSE (or failed to connect)
+  onEose?: () => void;
+  // Called when a relay refuses or drops the subscription for good
+  onError?: (error: RelayError, relayUrl: string) => void;
+}
+
+export interface QueryOptions {
+  // Give up on relays that have not sent EOSE after this many milliseconds
+  timeout?: number;
+  // Ask only these relays instead of every read relay
+  relays?: string[];
+}
+
+export interface ReconcileResult {
+  // Ids the relay has and we don't, and the other way round
+  needIds: string[];
+  haveIds: string[];
+}
+
+// Signs a NIP-42 kind 22242 event answering a relay's AUTH challenge
+export type AuthSigner = (relayUrl: string, challenge: string) => Promise<NostrEvent>;
+
+export type RelayPublishStatus = 'accepted' | 'rejected' | 'timeout' | 'error';
+
+export interface RelayPublishResult {
+  url: string;
+  status: RelayPublishStatus;
+  // Reason given by the relay in its OK message, or our own error description
+  message: string;
+  // Machine-readable prefix of a relay's rejection, e.g. "blocked" or "pow"
+  prefix?: RelayMessagePrefix | null;
+}
+
+export interface PublishResult {
+  eventId: string;
+  relays: RelayPublishResult[];
+}
+
+// Relays used when the user has not configured their own list
+export const DEFAULT_RELAYS: RelayConfig[] = [
+  { url: "wss://relay.damus.io", read: true, write: true },
+  { url: "wss://nos.lol", read: true, write: true },
+  { url: "wss://relay.primal.net", read: true, write: true },
+];
+
+const CONNECT_TIMEOUT = 5000;
+const PUBLISH_TIMEOUT = 10000;
+const AUTH_TIMEOUT = 5000;
+const DEFAULT_QUERY_TIMEOUT = 8000;
+// Longest wait for each NIP-77 message before the relay is treated as not supporting it
+const NEGENTROPY_TIMEOUT = 5000;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60000;
+const RATE_LIMIT_BASE_DELAY = 2000;
+const RATE_LIMIT_MAX_DELAY = 60000;
+// Times a rate-limited REQ or EVENT is resent to one relay before giving up
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// Generate a short subscription ID; relays may add a few characters for split REQs (see max_subid_length)
+export function generateShortId(prefix: string = ''): string {
+  // Generate 8 random hex characters (4 bytes)
+  const randomStr = Math.random().toString(16).substring(2, 10);
+  return prefix ? `${prefix}${randomStr.slice(0, 6)}` : randomStr.slice(0, 8);
+}
+
+/**
+ * Normalize a relay URL so the same relay is never connected twice
+ */
+export function normalizeRelayUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    const path = parsed.pathname === '/' ? '' : parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return trimmed.replace(/\/+$/, '');
+  }
+}
+
+// Size of a frame as the relay measures it for max_message_length (UTF-8 bytes)
+function frameSize(frame: unknown[]): number {
+  return new TextEncoder().encode(JSON.stringify(frame)).length;
+}
+
+// Split a filter's longest list (ids, authors or a tag) in half
+function splitFilter(filter: NostrFilter): NostrFilter[] | null {
+  let longestKey: string | null = null;
+  for (const [key, value] of Object.entries(filter)) {
+    if (Array.isArray(value) && value.length > 1 &&
+        (!longestKey || value.length > (filter[longestKey] as unknown[]).length)) {
+      longestKey = key;
+    }
+  }
+  if (!longestKey) return null;
+
+  const values = filter[longestKey] as unknown[];
+  const middle = Math.ceil(values.length / 2);
+  return [
+    { ...filter, [longestKey]: values.slice(0, middle) },
+    { ...filter, [longestKey]: values.slice(middle) },
+  ];
+}
+
+/**
+ * Fit filters into a relay's NIP-11 limits: clamp `limit` to max_limit, split
+ * filters that would make a REQ longer than max_message_length, and group them
+ * into as many REQs as max_filters requires
+ */
+export function shapeFilters(filters: NostrFilter[], info: RelayInfo | null, subscriptionId = ''): NostrFilter[][] {
+  const limitation = info?.limitation;
+  if (!limitation) return [filters];
+
+  const maxLength = limitation.max_message_length || Infinity;
+  const maxFilters = Math.max(1, limitation.max_filters || Infinity);
+  const reqSize = (group: NostrFilter[]) => frameSize(["REQ", subscriptionId, ...group]);
+
+  const clamped = filters.map(filter =>
+    limitation.max_limit && filter.limit !== undefined && filter.limit > limitation.max_limit
+      ? { ...filter, limit: limitation.max_limit }
+      : filter
+  );
+
+  const fitted: NostrFilter[] = [];
+  const queue = [...clamped];
+  while (queue.length > 0) {
+    const filter = queue.shift();
+    const halves = reqSize([filter]) > maxLength ? splitFilter(filter) : null;
+    if (halves) {
+      queue.unshift(...halves);
+    } else {
+      fitted.push(filter);
+    }
+  }
+
+  const groups: NostrFilter[][] = [];
+  for (const filter of fitted) {
+    const current = groups[groups.length - 1];
+    if (current && current.length < maxFilters && reqSize([...current, filter]) <= maxLength) {
+      current.push(filter);
+    } else {
+      groups.push([filter]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Why a relay's NIP-11 limits rule out an event, or null if they don't
+ */
+export function checkEventLimits(event: NostrEvent, info: RelayInfo | null): string | null {
+  const limitation = info?.limitation;
+  if (!limitation) return null;
+
+  const size = frameSize(["EVENT", event]);
+  if (limitation.max_message_length && size > limitation.max_message_length) {
+    return `invalid: event is ${size} bytes, the relay accepts at most ${limitation.max_message_length}`;
+  }
+  if (limitation.max_event_tags && event.tags.length > limitation.max_event_tags) {
+    return `invalid: event has ${event.tags.length} tags, the relay accepts at most ${limitation.max_event_tags}`;
+  }
+  if (limitation.max_content_length && [...event.content].length > limitation.max_content_length) {
+    return `invalid: content is longer than the relay's limit of ${limitation.max_content_length} characters`;
+  }
+  return null;
+}
+
+interface RelayConnectionHandlers {
+  createSocket: Transport;
+  onFrame: (relay: RelayConnection, data: unknown[]) => void;
+  // Called with every frame sent to the relay
+  onSend?: (relay: RelayConnection, frame: unknown[]) => void;
+  onOpen?: (relay: RelayConnection) => void;
+  // Called when an open or connecting socket goes away without us closing it
+  onClose?: (relay: RelayConnection) => void;
+}
+
+/**
+ * A single socket connection to one relay
+ */
+export class RelayConnection {
+  readonly url: string;
+  status: RelayStatus = 'disconnected';
+  // Latest NIP-42 challenge sent by the relay on this connection
+  challenge: string | null = null;
+  authPromise: Promise<void> | null = null;
+  // Milliseconds the latest connection took to open
+  connectLatency: number | null = null;
+  private socket: TransportSocket | null = null;
+  private connectionPromise: Promise<void> | null = null;
+  private handlers: RelayConnectionHandlers;
+  private challengeWaiters: ((challenge: string) => void)[] = [];
+
+  constructor(url: string, handlers: RelayConnectionHandlers) {
+    this.url = url;
+    this.handlers = handlers;
+  }
+
+  get isOpen(): boolean {
+    return this.socket !== null && this.socket.readyState === SOCKET_OPEN;
+  }
+
+  connect(): Promise<void> {
+    // Reuse the pending or open connection
+    if (this.connectionPromise && this.socket &&
+        (this.socket.readyState === SOCKET_CONNECTING || this.socket.readyState === SOCKET_OPEN)) {
+      return this.connectionPromise;
+    }
+
+    this.connectionPromise = new Promise<void>((resolve, reject) => {
+      console.log(`Connecting to relay: ${this.url}`);
+      const socket = this.handlers.createSocket(this.url);
+      const startedAt = Date.now();
+      this.socket = socket;
+      this.status = 'connecting';
+
+      const timeoutId = setTimeout(() => {
+        console.warn(`Timed out connecting to ${this.url}`);
+        reject(new Error(`Timed out connecting to ${this.url}`));
+        socket.close();
+      }, CONNECT_TIMEOUT);
+
+      socket.onopen = () => {
+        clearTimeout(timeoutId);
+        console.log(`Connected to relay: ${this.url}`);
+        this.status = 'connected';
+        this.connectLatency = Date.now() - startedAt;
+        this.handlers.onOpen?.(this);
+        resolve();
+      };
+
+      socket.onerror = (error) => {
+        clearTimeout(timeoutId);
+        console.error(`WebSocket error on ${this.url}:`, error);
+        reject(new Error(`Failed to connect to ${this.url}`));
+      };
+
+      socket.onclose = () => {
+        clearTimeout(timeoutId);
+        console.log(`Disconnected from relay: ${this.url}`);
+        // Ignore close events from sockets we have already replaced
+        if (this.socket === socket) {
+          this.resetState();
+          this.handlers.onClose?.(this);
+        }
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const data = JSON.parse(String(message.data));
+          if (Array.isArray(data)) {
+            this.handlers.onFrame(this, data);
+          }
+        } catch (error) {
+          console.error(`Error parsing message from ${this.url}:`, error);
+        }
+      };
+    });
+
+    return this.connectionPromise;
+  }
+
+  send(frame: unknown[]): boolean {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      console.warn(`Cannot send to ${this.url}: socket is not open`);
+      return false;
+    }
+    this.socket.send(JSON.stringify(frame));
+    this.handlers.onSend?.(this, frame);
+    return true;
+  }
+
+  setChallenge(challenge: string): void {
+    this.challenge = challenge;
+    const waiters = this.challengeWaiters;
+    this.challengeWaiters = [];
+    waiters.forEach(resolve => resolve(challenge));
+  }
+
+  /**
+   * Resolve with the relay's AUTH challenge, waiting for one if it has not arrived yet
+   */
+  waitForChallenge(timeout: number): Promise<string> {
+    if (this.challenge) return Promise.resolve(this.challenge);
+
+    return new Promise<string>((resolve, reject) => {
+      const waiter = (challenge: string) => {
+        clearTimeout(timeoutId);
+        resolve(challenge);
+      };
+      const timeoutId = setTimeout(() => {
+        this.challengeWaiters = this.challengeWaiters.filter(w => w !== waiter);
+        reject(new Error(`${this.url} did not send an AUTH challenge`));
+      }, timeout);
+      this.challengeWaiters.push(waiter);
+    });
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.close();
+    }
+    this.resetState();
+  }
+
+  // Authentication is per connection, so it is dropped along with the socket
+  private resetState(): void {
+    this.socket = null;
+    this.connectionPromise = null;
+    this.status = 'disconnected';
+    this.challenge = null;
+    this.authPromise = null;
+  }
+}
+
+interface PoolSubscription {
+  id: string;
+  filters: NostrFilter[];
+  handlers: SubscriptionHandlers;
+  // Event ids already delivered, so duplicates from other relays are dropped
+  seen: Set<string>;
+  // Relays the REQ was sent to, and those that finished their stored events
+  relays: Set<string>;
+  eosed: Set<string>;
+  eoseSent: boolean;
+  // Relays that really sent EOSE, as opposed to failing
+  completed: Set<string>;
+  // Relays whose connection dropped; the REQ is replayed when they reconnect
+  needsReplay: Set<string>;
+  // Newest created_at received from each relay, used as `since` when replaying there
+  lastEventAt: Map<string, number>;
+  // Signature checks still running; EOSE waits for them so no stored event arrives late
+  verifying: Set<Promise<void>>;
+  // Relays where we already authenticated and resent the REQ once
+  authRetried: Set<string>;
+  rateLimitRetries: Map<string, number>;
+  // Relays that closed the subscription for good; not replayed on reconnect
+  closedByRelay: Set<string>;
+  // Subscription ids open on each relay; more than one when the filters were split across REQs
+  reqIds: Map<string, string[]>;
+  // Split REQs waiting for a free subscription slot on a relay
+  stagedReqs: Map<string, { id: string; filters: NostrFilter[] }[]>;
+  // Split REQs that have not sent EOSE yet, per relay
+  pendingReqIds: Map<string, Set<string>>;
+}
+
+interface NegentropySession {
+  id: string;
+  relayUrl: string;
+  negentropy: Negentropy;
+  // NEG-MSG rounds answered so far; a relay that never answers does not speak NIP-77
+  rounds: number;
+  needIds: string[];
+  haveIds: string[];
+  resolve: (result: ReconcileResult) => void;
+  reject: (error: RelayError) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+interface PendingPublish {
+  eventId: string;
+  event: NostrEvent;
+  authRetried: Set<string>;
+  rateLimitRetries: Map<string, number>;
+  // Write relays that have not answered yet
+  relays: Set<string>;
+  results: RelayPublishResult[];
+  resolve: (result: PublishResult) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Holds connections to many relays at once. REQs fan out to every read relay
+ * and events are merged and deduplicated by id; EVENTs go to every write relay.
+ */
+export class RelayPool {
+  private relays = new Map<string, RelayConnection>();
+  private configs: RelayConfig[] = [];
+  private subscriptions = new Map<string, PoolSubscription>();
+  // Publish attempts waiting for OKs, by event id; the same event may be published more than once at a time
+  private pendingPublishes = new Map<string, Set<PendingPublish>>();
+  private pendingAuths = new Map<string, { resolve: () => void; reject: (error: Error) => void }>();
+  private relayListeners = new Set<() => void>();
+  private reconnectAttempts = new Map<string, number>();
+  private reconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Relays that told us to slow down: when we may send again, and how often it happened
+  private rateLimits = new Map<string, { until: number; strikes: number }>();
+  private negentropySessions = new Map<string, NegentropySession>();
+  // Relays that ignored or refused NEG-OPEN; they get plain REQs
+  private negentropyUnsupported = new Set<string>();
+  // Subscriptions waiting for a free slot on relays at their max_subscriptions
+  private reqQueues = new Map<string, PoolSubscription[]>();
+  private infoLoader: RelayInfoLoader = fetchRelayInfo;
+  // Traffic and timing per relay, for the diagnostics page
+  readonly diagnostics = new RelayDiagnostics();
+  private authSigner: AuthSigner | null = null;
+  private transport: Transport;
+  private defaultRelays: RelayConfig[] = DEFAULT_RELAYS;
+
+  constructor(configs: RelayConfig[] = DEFAULT_RELAYS, transport: Transport = browserWebSocketTransport) {
+    this.transport = transport;
+    this.setRelays(configs);
+  }
+
+  /**
+   * Change how sockets are opened; applies to connections made from now on
+   */
+  setTransport(transport: Transport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Change where NIP-11 documents come from, e.g. for relays that are not reachable over HTTP
+   */
+  setRelayInfoLoader(loader: RelayInfoLoader): void {
+    this.infoLoader = loader;
+  }
+
+  /**
+   * A relay's cached NIP-11 information document; null when it has none
+   */
+  getRelayInfo(url: string): Promise<RelayInfo | null> {
+    return getRelayInfo(url, this.infoLoader);
+  }
+
+  /**
+   * Relays to fall back to when the user has no relay list
+   */
+  getDefaultRelays(): RelayConfig[] {
+    return this.defaultRelays;
+  }
+
+  setDefaultRelays(configs: RelayConfig[]): void {
+    this.defaultRelays = configs;
+  }
+
+  /**
+   * Replace the relay list, closing relays that were removed and
+   * sending active subscriptions to newly added read relays
+   */
+  setRelays(configs: RelayConfig[]): void {
+    const merged = new Map<string, RelayConfig>();
+    for (const config of configs) {
+      const url = normalizeRelayUrl(config.url);
+      const existing = merged.get(url);
+      merged.set(url, {
+        url,
+        read: config.read || !!existing?.read,
+        write: config.write || !!existing?.write,
+      });
+    }
+    this.configs = [...merged.values()];
+
+    for (const [url, relay] of this.relays) {
+      if (!merged.has(url)) {
+        console.log(`Removing relay from pool: ${url}`);
+        relay.close();
+        this.relays.delete(url);
+        clearTimeout(this.reconnectTimers.get(url));
+        this.reconnectTimers.delete(url);
+        this.reconnectAttempts.delete(url);
+        this.rateLimits.delete(url);
+        this.negentropyUnsupported.delete(url);
+        this.reqQueues.delete(url);
+        for (const session of [...this.negentropySessions.values()]) {
+          if (session.relayUrl === url) {
+            this.finishNegentropy(session, new RelayError(url, "error: relay removed from the pool"));
+          }
+        }
+      }
+    }
+
+    for (const config of this.configs) {
+      if (!this.relays.has(config.url)) {
+        this.relays.set(config.url, new RelayConnection(config.url, {
+          createSocket: (url) => this.transport(url),
+          onFrame: this.handleFrame,
+          onSend: (relay, frame) => this.diagnostics.recordFrame(relay.url, 'out', frame),
+          onOpen: this.handleOpen,
+          onClose: this.handleClose,
+        }));
+      }
+    }
+
+    const readRelays = this.getReadRelays();
+    for (const subscription of this.subscriptions.values()) {
+      // Stop subscriptions on relays that are no longer read relays
+      for (const url of subscription.relays) {
+        if (!readRelays.includes(url)) {
+          this.closeReqs(url, subscription);
+          subscription.relays.delete(url);
+          subscription.eosed.delete(url);
+          subscription.completed.delete(url);
+          subscription.needsReplay.delete(url);
+          subscription.closedByRelay.delete(url);
+          subscription.rateLimitRetries.delete(url);
+          subscription.lastEventAt.delete(url);
+        }
+      }
+      for (const url of readRelays) {
+        if (!subscription.relays.has(url)) {
+          this.sendReq(url, subscription);
+        }
+      }
+      // The relay we stopped waiting for may have been the last one without EOSE
+      this.checkEose(subscription);
+    }
+
+    this.relayListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Set the function used to answer NIP-42 AUTH challenges
+   */
+  setAuthSigner(signer: AuthSigner | null): void {
+    this.authSigner = signer;
+  }
+
+  /**
+   * Register a listener called whenever the relay list changes
+   */
+  onRelaysChanged(listener: () => void): () => void {
+    this.relayListeners.add(listener);
+    return () => {
+      this.relayListeners.delete(listener);
+    };
+  }
+
+  getRelayConfigs(): RelayConfig[] {
+    return this.configs.map(config => ({ ...config }));
+  }
+
+  getReadRelays(): string[] {
+    return this.configs.filter(config => config.read).map(config => config.url);
+  }
+
+  getWriteRelays(): string[] {
+    return this.configs.filter(config => config.write).map(config => config.url);
+  }
+
+  getStatus(url: string): RelayStatus {
+    return this.relays.get(normalizeRelayUrl(url))?.status ?? 'disconnected';
+  }
+
+  /**
+   * Connect to every relay in the pool. Resolves once at least one relay is
+   * connected and rejects only if all of them fail.
+   */
+  async connect(): Promise<void> {
+    const relays = [...this.relays.values()];
+    if (relays.length === 0) {
+      throw new Error("No relays configured");
+    }
+
+    // Fetch NIP-11 documents alongside, so the first REQs don't wait for them
+    relays.forEach(relay => this.getRelayInfo(relay.url));
+    const results = await Promise.allSettled(relays.map(relay => relay.connect()));
+    const connected = results.filter(result => result.status === 'fulfilled').length;
+    console.log(`Connected to ${connected} of ${relays.length} relays`);
+
+    if (connected === 0) {
+      throw new Error("Could not connect to any relay");
+    }
+  }
+
+  /**
+   * Send a REQ to every read relay (or the given ones). Returns a function that closes the subscription.
+   */
+  subscribe(filters: NostrFilter[], handlers: SubscriptionHandlers, relayUrls: string[] = this.getReadRelays()): () => void {
+    const subscription: PoolSubscription = {
+      id: generateShortId("s"),
+      filters,
+      handlers,
+      seen: new Set(),
+      relays: new Set(),
+      eosed: new Set(),
+      eoseSent: false,
+      completed: new Set(),
+      needsReplay: new Set(),
+      lastEventAt: new Map(),
+      verifying: new Set(),
+      authRetried: new Set(),
+      rateLimitRetries: new Map(),
+      closedByRelay: new Set(),
+      reqIds: new Map(),
+      stagedReqs: new Map(),
+      pendingReqIds: new Map(),
+    };
+    this.subscriptions.set(subscription.id, subscription);
+
+    const readRelays = relayUrls.filter(url => this.relays.has(url));
+    console.log(`Subscribing ${subscription.id} on ${readRelays.length} relays`);
+    readRelays.forEach(url => this.sendReq(url, subscription));
+    this.checkEose(subscription);
+
+    return () => {
+      if (!this.subscriptions.has(subscription.id)) return;
+      console.log(`Closing subscription: ${subscription.id}`);
+      this.subscriptions.delete(subscription.id);
+      for (const url of subscription.relays) {
+        this.closeReqs(url, subscription);
+      }
+    };
+  }
+
+  /**
+   * Fetch stored events once. Resolves with the events collected when every
+   * read relay has sent EOSE (or at the timeout), newest first, and closes
+   * the subscription itself. Rejects with a QueryError only when every read
+   * relay failed and nothing was received.
+   */
+  query(filters: NostrFilter[], options: QueryOptions = {}): Promise<NostrEvent[]> {
+    const timeout = options.timeout ?? DEFAULT_QUERY_TIMEOUT;
+    const relayUrls = (options.relays ?? this.getReadRelays()).filter(url => this.relays.has(url));
+    const relayCount = relayUrls.length;
+
+    return new Promise<NostrEvent[]>((resolve, reject) => {
+      const events: NostrEvent[] = [];
+      const errors = new Map<string, RelayError>();
+      let close: (() => void) | null = null;
+      let done = false;
+
+      const finish = () => {
+        if (done) return;
+        done = true;
+        clearTimeout(timeoutId);
+        close?.();
+        if (events.length === 0 && relayCount > 0 && errors.size === relayCount) {
+          reject(new QueryError([...errors.values()]));
+          return;
+        }
+        resolve(events.sort((a, b) => (b.created_at || 0) - (a.created_at || 0)));
+      };
+
+      const timeoutId = setTimeout(() => {
+        console.log(`Query timed out after ${timeout}ms with ${events.length} events`);
+        finish();
+      }, timeout);
+
+      close = this.subscribe(filters, {
+        onEvent: (event) => events.push(event),
+        onEose: finish,
+        onError: (error, url) => errors.set(url, error),
+      }, relayUrls);
+
+      // onEose fires synchronously when there are no read relays
+      if (done) close();
+    });
+  }
+
+  /**
+   * Send an event to every write relay (or just `relayUrls`). Resolves once every
+   * relay has answered (or timed out) with the outcome for each of them; never
+   * rejects for relay-level failures.
+   */
+  publish(event: NostrEvent, relayUrls: string[] = this.getWriteRelays()): Promise<PublishResult> {
+    const eventId = event.id;
+    if (!eventId) {
+      return Promise.reject(new Error("Cannot publish an unsigned event"));
+    }
+
+    const writeRelays = relayUrls.filter(url => this.relays.has(url));
+    if (writeRelays.length === 0) {
+      return Promise.reject(new Error("No write relays configured"));
+    }
+
+    return new Promise<PublishResult>((resolve) => {
+      const pending: PendingPublish = {
+        eventId,
+        event,
+        authRetried: new Set(),
+        rateLimitRetries: new Map(),
+        relays: new Set(writeRelays),
+        results: [],
+        resolve,
+        timeoutId: setTimeout(() => {
+          for (const url of [...pending.relays]) {
+            this.settlePublishRelay(pending, { url, status: 'timeout', message: "No response from relay" });
+          }
+        }, PUBLISH_TIMEOUT),
+      };
+      const attempts = this.pendingPublishes.get(eventId) || new Set();
+      this.pendingPublishes.set(eventId, attempts.add(pending));
+
+      writeRelays.forEach(async (url) => {
+        const relay = this.relays.get(url);
+        try {
+          await this.waitForRateLimit(url);
+          const info = await this.getRelayInfo(url);
+          const limitProblem = checkEventLimits(event, info);
+          if (limitProblem) {
+            // Don't send what the relay announced it would refuse
+            this.settlePublishRelay(pending, { url, status: 'rejected', message: limitProblem, prefix: 'invalid' });
+            return;
+          }
+
+          await relay.connect();
+          if (info?.limitation?.auth_required) {
+            try {
+              await this.authenticate(relay);
+            } catch (error) {
+              const reason = error instanceof Error ? error.message : "authentication failed";
+              this.settlePublishRelay(pending, { url, status: 'rejected', message: `auth-required: ${reason}`, prefix: 'auth-required' });
+              return;
+            }
+          }
+          if (!relay.send(["EVENT", event])) {
+            throw new Error(`Could not send to ${url}`);
+          }
+          console.log(`Sent event ${eventId} to ${url}`);
+        } catch (error) {
+          console.error(`Failed to publish to ${url}:`, error);
+          this.settlePublishRelay(pending, {
+            url,
+            status: 'error',
+            message: error instanceof Error ? error.message : "Connection failed",
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * Whether NIP-77 is worth trying on a relay; false once it ignored or refused NEG-OPEN
+   */
+  supportsNegentropy(url: string): boolean {
+    if (!this.relays.has(url) || this.negentropyUnsupported.has(url)) return false;
+    // Trust the NIP-11 document when there is one; otherwise NEG-OPEN is tried and the answer remembered
+    const info = getCachedRelayInfo(url);
+    return info?.supported_nips ? supportsNip(info, 77) : true;
+  }
+
+  /**
+   * Run NIP-77 negentropy reconciliation of `storage` against the relay's events matching `filter`
+   * Resolves with the ids each side is missing; rejects with a RelayError when the
+   * relay does not support it or gives up (e.g. `blocked:` for too many records).
+   */
+  async reconcile(url: string, filter: NostrFilter, storage: NegentropyStorage): Promise<ReconcileResult> {
+    const relay = this.relays.get(url);
+    if (!relay) {
+      throw new RelayError(url, "error: relay is not in the pool");
+    }
+    if (this.negentropyUnsupported.has(url)) {
+      throw new RelayError(url, "error: relay does not support negentropy");
+    }
+
+    await this.waitForRateLimit(url);
+    await relay.connect();
+    // Hex doubles the size of the message, and the frame adds the id and filter
+    const maxLength = (await this.getRelayInfo(url))?.limitation?.max_message_length;
+    const frameSizeLimit = maxLength ? Math.max(4096, Math.floor((maxLength - frameSize([filter]) - 100) / 2)) : 0;
+    const negentropy = new Negentropy(storage, frameSizeLimit);
+    const initialMessage = await negentropy.initiate();
+
+    return new Promise<ReconcileResult>((resolve, reject) => {
+      const session: NegentropySession = {
+        id: generateShortId("n"),
+        relayUrl: url,
+        negentropy,
+        rounds: 0,
+        needIds: [],
+        haveIds: [],
+        resolve,
+        reject,
+        timeoutId: null,
+      };
+      this.negentropySessions.set(session.id, session);
+      this.armNegentropyTimeout(session);
+
+      console.log(`Reconciling ${storage.size} events with ${url} (${session.id})`);
+      if (!relay.send(["NEG-OPEN", session.id, filter, initialMessage])) {
+        this.finishNegentropy(session, new RelayError(url, "error: could not send NEG-OPEN"));
+      }
+    });
+  }
+
+  private armNegentropyTimeout(session: NegentropySession): void {
+    clearTimeout(session.timeoutId);
+    session.timeoutId = setTimeout(() => {
+      if (session.rounds === 0) {
+        console.log(`${session.relayUrl} did not answer NEG-OPEN, using REQ from now on`);
+        this.negentropyUnsupported.add(session.relayUrl);
+      }
+      this.finishNegentropy(session, new RelayError(session.relayUrl, "error: negentropy timed out"));
+    }, NEGENTROPY_TIMEOUT);
+  }
+
+  // Settle a reconciliation, closing it on the relay if it is still open there
+  private finishNegentropy(session: NegentropySession, error?: RelayError): void {
+    if (this.negentropySessions.get(session.id) !== session) return;
+    this.negentropySessions.delete(session.id);
+    clearTimeout(session.timeoutId);
+    this.relays.get(session.relayUrl)?.send(["NEG-CLOSE", session.id]);
+
+    if (error) {
+      console.warn(`Negentropy with ${session.relayUrl} failed:`, error.message);
+      session.reject(error);
+    } else {
+      console.log(`Negentropy with ${session.relayUrl} done: need ${session.needIds.length}, have ${session.haveIds.length}`);
+      session.resolve({ needIds: session.needIds, haveIds: session.haveIds });
+    }
+  }
+
+  private async handleNegentropyMessage(relay: RelayConnection, session: NegentropySession, message: string): Promise<void> {
+    session.rounds++;
+    this.armNegentropyTimeout(session);
+
+    try {
+      const { output, needIds, haveIds } = await session.negentropy.reconcile(message);
+      session.needIds.push(...needIds);
+      session.haveIds.push(...haveIds);
+
+      if (output === null) {
+        this.finishNegentropy(session);
+      } else if (!relay.send(["NEG-MSG", session.id, output])) {
+        this.finishNegentropy(session, new RelayError(relay.url, "error: connection lost during negentropy"));
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "bad negentropy message";
+      this.finishNegentropy(session, new RelayError(relay.url, `error: ${reason}`));
+    }
+  }
+
+  private async sendReq(url: string, subscription: PoolSubscription): Promise<void> {
+    const relay = this.relays.get(url);
+    if (!relay) return;
+    subscription.relays.add(url);
+
+    try {
+      await this.waitForRateLimit(url);
+      const info = await this.getRelayInfo(url);
+      await relay.connect();
+      // The subscription may have been closed while we were connecting
+      if (!this.subscriptions.has(subscription.id)) return;
+
+      if (info?.limitation?.auth_required) {
+        // The relay answers nothing before NIP-42 AUTH, so authenticate first
+        try {
+          await this.authenticate(relay);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : "authentication failed";
+          this.failSubscriptionRelay(subscription, url, new RelayError(url, `auth-required: ${reason}`));
+          return;
+        }
+        if (!this.subscriptions.has(subscription.id)) return;
+      }
+
+      if (!this.hasReqSlots(url, subscription)) {
+        console.log(`${url} is at its subscription limit, queueing ${subscription.id}`);
+        this.reqQueues.set(url, [...(this.reqQueues.get(url) || []), subscription]);
+        return;
+      }
+      if (!this.sendReqFrames(relay, subscription)) {
+        throw new Error(`Could not send REQ to ${url}`);
+      }
+    } catch (error) {
+      console.error(`Subscription ${subscription.id} failed on ${url}:`, error);
+      // Treat a relay we cannot reach as finished so onEose is not held up
+      const message = error instanceof Error ? error.message : "Connection failed";
+      this.failSubscriptionRelay(subscription, url, new RelayError(url, `error: ${message}`));
+    }
+  }
+
+  /**
+   * Send a subscription's REQ to a relay, split into several REQs when the
+   * relay's NIP-11 limits call for it. Returns false if the socket is not open.
+   */
+  private sendReqFrames(relay: RelayConnection, subscription: PoolSubscription, filters: NostrFilter[] = subscription.filters): boolean {
+    const groups = shapeFilters(filters, getCachedRelayInfo(relay.url), subscription.id);
+    const reqs = groups.map((group, i) => ({ id: i === 0 ? subscription.id : `${subscription.id}:${i}`, filters: group }));
+    if (groups.length > 1) {
+      console.log(`Splitting ${subscription.id} into ${groups.length} REQs for ${relay.url}`);
+    }
+
+    // Parts that don't fit under max_subscriptions wait for earlier parts to finish
+    const slots = Math.max(1, this.getFreeReqSlots(relay.url, subscription));
+    const sending = reqs.slice(0, slots);
+    subscription.reqIds.set(relay.url, sending.map(req => req.id));
+    subscription.stagedReqs.set(relay.url, reqs.slice(slots));
+    subscription.pendingReqIds.set(relay.url, new Set(reqs.map(req => req.id)));
+    return sending.every(req => relay.send(["REQ", req.id, ...req.filters]));
+  }
+
+  // REQs a relay's max_subscriptions still allows next to the other subscriptions' open ones
+  private getFreeReqSlots(url: string, subscription: PoolSubscription): number {
+    const max = getCachedRelayInfo(url)?.limitation?.max_subscriptions;
+    if (!max) return Infinity;
+
+    let open = 0;
+    for (const other of this.subscriptions.values()) {
+      if (other !== subscription) open += other.reqIds.get(url)?.length || 0;
+    }
+    return max - open;
+  }
+
+  private hasReqSlots(url: string, subscription: PoolSubscription): boolean {
+    return this.getFreeReqSlots(url, subscription) > 0;
+  }
+
+  // A split part finished its stored events; swap it for the next staged part, if any
+  private sendNextStagedReq(relay: RelayConnection, subscription: PoolSubscription, finishedId: string): void {
+    const staged = subscription.stagedReqs.get(relay.url);
+    if (!staged?.length) return;
+
+    // Live updates for the finished part are given up to stay under max_subscriptions
+    const next = staged.shift();
+    relay.send(["CLOSE", finishedId]);
+    subscription.reqIds.set(relay.url, [
+      ...(subscription.reqIds.get(relay.url) || []).filter(id => id !== finishedId),
+      next.id,
+    ]);
+    relay.send(["REQ", next.id, ...next.filters]);
+  }
+
+  // Send CLOSE for a subscription's REQs on a relay and let queued subscriptions use the slots
+  private closeReqs(url: string, subscription: PoolSubscription): void {
+    const relay = this.relays.get(url);
+    const reqIds = subscription.reqIds.get(url) || [];
+    subscription.reqIds.delete(url);
+    subscription.stagedReqs.delete(url);
+    subscription.pendingReqIds.delete(url);
+    if (relay?.isOpen) {
+      reqIds.forEach(id => relay.send(["CLOSE", id]));
+    }
+    this.reqQueues.set(url, (this.reqQueues.get(url) || []).filter(queued => queued !== subscription));
+    this.drainReqQueue(url);
+  }
+
+  private drainReqQueue(url: string): void {
+    const relay = this.relays.get(url);
+    const queue = this.reqQueues.get(url);
+    if (!relay?.isOpen || !queue?.length) return;
+
+    while (queue.length > 0 && this.hasReqSlots(url, queue[0])) {
+      const subscription = queue.shift();
+      if (!this.subscriptions.has(subscription.id)) continue;
+      console.log(`Sending queued ${subscription.id} to ${url}`);
+      this.sendReqFrames(relay, subscription);
+    }
+  }
+
+  // The pool subscription a relay frame refers to; split REQs use "<id>:<n>"
+  private findSubscription(reqId: unknown): PoolSubscription | undefined {
+    if (typeof reqId !== 'string') return undefined;
+    return this.subscriptions.get(reqId.split(':')[0]);
+  }
+
+  // Stop waiting on a relay that refused or dropped the subscription
+  private failSubscriptionRelay(subscription: PoolSubscription, url: string, error: RelayError): void {
+    if (!this.subscriptions.has(subscription.id)) return;
+    subscription.eosed.add(url);
+    subscription.handlers.onError?.(error, url);
+    this.checkEose(subscription);
+  }
+
+  // Back off from a relay that rate-limited us; returns the delay before we may send again
+  private noteRateLimit(url: string): number {
+    const strikes = (this.rateLimits.get(url)?.strikes || 0) + 1;
+    const delay = Math.min(RATE_LIMIT_BASE_DELAY * 2 ** (strikes - 1), RATE_LIMIT_MAX_DELAY);
+    this.rateLimits.set(url, { until: Date.now() + delay, strikes });
+    console.warn(`Rate limited by ${url}, backing off for ${delay}ms`);
+    return delay;
+  }
+
+  private clearRateLimit(url: string): void {
+    this.rateLimits.delete(url);
+  }
+
+  // Hold new requests to a relay until its rate-limit backoff has passed
+  private async waitForRateLimit(url: string): Promise<void> {
+    const wait = (this.rateLimits.get(url)?.until || 0) - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  // Resend a REQ the relay closed with rate-limited once the backoff has passed
+  private retrySubscriptionAfterRateLimit(relay: RelayConnection, subscription: PoolSubscription): void {
+    const retries = (subscription.rateLimitRetries.get(relay.url) || 0) + 1;
+    subscription.rateLimitRetries.set(relay.url, retries);
+    const delay = this.noteRateLimit(relay.url);
+
+    setTimeout(() => {
+      if (!this.subscriptions.has(subscription.id) || !subscription.relays.has(relay.url)) return;
+      console.log(`Retrying ${subscription.id} on ${relay.url} (attempt ${retries})`);
+      if (!this.sendReqFrames(relay, subscription)) {
+        // The socket is down; the reconnect logic replays the REQ
+        subscription.needsReplay.add(relay.url);
+      }
+    }, delay);
+  }
+
+  // Resend an EVENT the relay refused with rate-limited once the backoff has passed
+  private retryPublishAfterRateLimit(relay: RelayConnection, pending: PendingPublish, message: string): void {
+    const retries = (pending.rateLimitRetries.get(relay.url) || 0) + 1;
+    pending.rateLimitRetries.set(relay.url, retries);
+    const delay = this.noteRateLimit(relay.url);
+
+    setTimeout(() => {
+      if (!pending.relays.has(relay.url)) return;
+      console.log(`Retrying publish of ${pending.eventId} on ${relay.url} (attempt ${retries})`);
+      if (!relay.send(["EVENT", pending.event])) {
+        this.settlePublishRelay(pending, { url: relay.url, status: 'rejected', message, prefix: 'rate-limited' });
+      }
+    }, delay);
+  }
+
+  /**
+   * Answer the relay's NIP-42 challenge. Concurrent callers share one attempt.
+   */
+  private authenticate(relay: RelayConnection): Promise<void> {
+    if (!relay.authPromise) {
+      relay.authPromise = this.sendAuth(relay).catch((error) => {
+        // Allow a later attempt, e.g. after the user logs in with a signer
+        relay.authPromise = null;
+        throw error;
+      });
+    }
+    return relay.authPromise;
+  }
+
+  private async sendAuth(relay: RelayConnection): Promise<void> {
+    if (!this.authSigner) {
+      throw new Error(`${relay.url} requires authentication`);
+    }
+
+    const challenge = await relay.waitForChallenge(AUTH_TIMEOUT);
+    console.log(`Authenticating to ${relay.url}`);
+    const authEvent = await this.authSigner(relay.url, challenge);
+
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.pendingAuths.delete(authEvent.id);
+        reject(new Error(`${relay.url} did not answer our AUTH`));
+      }, AUTH_TIMEOUT);
+
+      this.pendingAuths.set(authEvent.id, {
+        resolve: () => {
+          clearTimeout(timeoutId);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timeoutId);
+          reject(error);
+        },
+      });
+
+      if (!relay.send(["AUTH", authEvent])) {
+        this.pendingAuths.get(authEvent.id)?.reject(new Error(`Could not send AUTH to ${relay.url}`));
+        this.pendingAuths.delete(authEvent.id);
+      }
+    });
+
+    console.log(`Authenticated to ${relay.url}`);
+  }
+
+  // Authenticate and resend the EVENT a relay refused with auth-required
+  private retryPublishWithAuth(relay: RelayConnection, pending: PendingPublish, message: string): void {
+    pending.authRetried.add(relay.url);
+    this.authenticate(relay)
+      .then(() => {
+        if (!relay.send(["EVENT", pending.event])) {
+          throw new Error(`Could not resend to ${relay.url}`);
+        }
+      })
+      .catch((error) => {
+        this.settlePublishRelay(pending, {
+          url: relay.url,
+          status: 'rejected',
+          message: `${message} (${error instanceof Error ? error.message : "authentication failed"})`,
+          prefix: 'auth-required',
+        });
+      });
+  }
+
+  // Authenticate and resend the REQ a relay closed with auth-required
+  private retrySubscriptionWithAuth(relay: RelayConnection, subscription: PoolSubscription, message: string): void {
+    subscription.authRetried.add(relay.url);
+    this.authenticate(relay)
+      .then(() => {
+        if (!this.subscriptions.has(subscription.id)) return;
+        if (!this.sendReqFrames(relay, subscription)) {
+          throw new Error(`Could not resend REQ to ${relay.url}`);
+        }
+      })
+      .catch((error) => {
+        const reason = error instanceof Error ? error.message : "authentication failed";
+        this.failSubscriptionRelay(subscription, relay.url, new RelayError(relay.url, `${message} (${reason})`));
+      });
+  }
+
+  private checkEose(subscription: PoolSubscription): void {
+    if (subscription.eoseSent) return;
+    const pending = [...subscription.relays].filter(url => !subscription.eosed.has(url));
+    if (pending.length === 0) {
+      subscription.eoseSent = true;
+      subscription.handlers.onEose?.();
+    }
+  }
+
+  // Record one relay's outcome and resolve once every write relay has answered
+  private settlePublishRelay(pending: PendingPublish, result: RelayPublishResult): void {
+    if (!pending.relays.has(result.url)) return;
+    pending.relays.delete(result.url);
+    pending.results.push(result);
+
+    if (pending.relays.size === 0) {
+      clearTimeout(pending.timeoutId);
+      const attempts = this.pendingPublishes.get(pending.eventId);
+      attempts?.delete(pending);
+      if (attempts?.size === 0) {
+        this.pendingPublishes.delete(pending.eventId);
+      }
+      pending.resolve({ eventId: pending.eventId, relays: pending.results });
+    }
+  }
+
+  private handleOpen = (relay: RelayConnection): void => {
+    this.diagnostics.recordConnect(relay.url, relay.connectLatency ?? 0);
+    this.reconnectAttempts.delete(relay.url);
+    clearTimeout(this.reconnectTimers.get(relay.url));
+    this.reconnectTimers.delete(relay.url);
+
+    // Replay subscriptions that were live on this relay before it dropped
+    for (const subscription of this.subscriptions.values()) {
+      if (!subscription.needsReplay.has(relay.url)) continue;
+      subscription.needsReplay.delete(relay.url);
+
+      const lastEventAt = subscription.lastEventAt.get(relay.url) ?? 0;
+      const filters = subscription.completed.has(relay.url) && lastEventAt > 0
+        ? subscription.filters.map(filter => ({
+            ...filter,
+            since: Math.max(filter.since ?? 0, lastEventAt),
+          }))
+        : subscription.filters;
+
+      console.log(`Resubscribing ${subscription.id} on ${relay.url}`);
+      this.sendReqFrames(relay, subscription, filters);
+    }
+    this.drainReqQueue(relay.url);
+  };
+
+  private handleClose = (relay: RelayConnection): void => {
+    // Ignore relays that were removed from the pool
+    if (this.relays.get(relay.url) !== relay) return;
+
+    for (const session of [...this.negentropySessions.values()]) {
+      if (session.relayUrl === relay.url) {
+        this.finishNegentropy(session, new RelayError(relay.url, "error: connection lost during negentropy"));
+      }
+    }
+
+    let hasSubscriptions = false;
+    for (const subscription of this.subscriptions.values()) {
+      // The relay forgot our REQs; replays send them again
+      subscription.reqIds.delete(relay.url);
+      if (!subscription.relays.has(relay.url) || subscription.closedByRelay.has(relay.url)) continue;
+      hasSubscriptions = true;
+      subscription.needsReplay.add(relay.url);
+      // Don't hold up onEose for a relay that went away
+      if (!subscription.eosed.has(relay.url)) {
+        subscription.eosed.add(relay.url);
+        this.checkEose(subscription);
+      }
+    }
+
+    if (hasSubscriptions) {
+      this.scheduleReconnect(relay);
+    }
+  };
+
+  // Reconnect with exponential backoff; handleOpen replays the subscriptions
+  private scheduleReconnect(relay: RelayConnection): void {
+    if (this.reconnectTimers.has(relay.url)) return;
+
+    const attempt = (this.reconnectAttempts.get(relay.url) || 0) + 1;
+    this.reconnectAttempts.set(relay.url, attempt);
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), RECONNECT_MAX_DELAY);
+    console.log(`Reconnecting to ${relay.url} in ${delay}ms (attempt ${attempt})`);
+
+    this.reconnectTimers.set(relay.url, setTimeout(() => {
+      this.reconnectTimers.delete(relay.url);
+      if (this.relays.get(relay.url) !== relay) return;
+      // A failed attempt closes the socket, which schedules the next one
+      relay.connect().catch(error => console.warn(`Reconnect to ${relay.url} failed:`, error));
+    }, delay));
+  }
+
+  private handleFrame = (relay: RelayConnection, data: unknown[]): void => {
+    const [type] = data;
+    this.diagnostics.recordFrame(relay.url, 'in', data);
+
+    if (type === "EVENT") {
+      const subscription = this.findSubscription(data[1]);
+      const event = data[2] as NostrEvent;
+      if (!subscription || !event?.id) return;
+      if (subscription.seen.has(event.id)) return;
+
+      // Only events with a valid id and signature reach app code
+      const verification = verifyNostrEvent(event, relay.url).then(valid => {
+        subscription.verifying.delete(verification);
+        if (!valid) return;
+        const lastEventAt = subscription.lastEventAt.get(relay.url) ?? 0;
+        subscription.lastEventAt.set(relay.url, Math.max(lastEventAt, event.created_at || 0));
+        if (subscription.seen.has(event.id)) return;
+        if (!this.subscriptions.has(subscription.id)) return;
+        subscription.seen.add(event.id);
+        subscription.handlers.onEvent(event, relay.url);
+      }).catch(error => {
+        // Never leave a rejection for the EOSE handler below; the event is just dropped
+        subscription.verifying.delete(verification);
+        console.error(`Failed to verify or deliver event ${event.id} from ${relay.url}:`, error);
+      });
+      subscription.verifying.add(verification);
+    } else if (type === "EOSE") {
+      const subscription = this.findSubscription(data[1]);
+      if (!subscription) return;
+      console.log(`End of stored events for ${data[1]} from ${relay.url}`);
+
+      this.clearRateLimit(relay.url);
+      // A split subscription is done on this relay once every part has sent EOSE
+      const pendingReqIds = subscription.pendingReqIds.get(relay.url);
+      pendingReqIds?.delete(data[1] as string);
+      this.sendNextStagedReq(relay, subscription, data[1] as string);
+      if (pendingReqIds?.size) return;
+
+      Promise.allSettled([...subscription.verifying]).then(() => {
+        subscription.eosed.add(relay.url);
+        subscription.completed.add(relay.url);
+        this.checkEose(subscription);
+      });
+    } else if (type === "OK") {
+      const eventId = data[1] as string;
+      const accepted = data[2] === true;
+      const message = typeof data[3] === 'string' ? data[3] : '';
+
+      const pendingAuth = this.pendingAuths.get(eventId);
+      if (pendingAuth) {
+        this.pendingAuths.delete(eventId);
+        if (accepted) {
+          pendingAuth.resolve();
+        } else {
+          pendingAuth.reject(new Error(`${relay.url} rejected AUTH: ${message}`));
+        }
+        return;
+      }
+
+      // One OK answers every attempt still waiting on this relay
+      const attempts = [...(this.pendingPublishes.get(eventId) || [])].filter(pending => pending.relays.has(relay.url));
+      if (attempts.length === 0) return;
+      console.log(`Relay ${relay.url} ${accepted ? 'accepted' : 'rejected'} ${eventId}: ${message}`);
+      const { prefix } = parseRelayMessage(message);
+      if (accepted) {
+        this.clearRateLimit(relay.url);
+      }
+      // Paid relays rarely say why they refuse non-members
+      const paymentNote = !accepted && getCachedRelayInfo(relay.url)?.limitation?.payment_required
+        ? `${message ? ' ' : ''}(this relay requires payment)`
+        : '';
+
+      for (const pending of attempts) {
+        if (!accepted && prefix === 'auth-required' && !pending.authRetried.has(relay.url)) {
+          this.retryPublishWithAuth(relay, pending, message);
+        } else if (!accepted && prefix === 'rate-limited' && (pending.rateLimitRetries.get(relay.url) || 0) < MAX_RATE_LIMIT_RETRIES) {
+          this.retryPublishAfterRateLimit(relay, pending, message);
+        } else {
+          this.settlePublishRelay(pending, {
+            url: relay.url,
+            status: accepted ? 'accepted' : 'rejected',
+            message: message + paymentNote,
+            prefix,
+          });
+        }
+      }
+    } else if (type === "CLOSED") {
+      const subscription = this.findSubscription(data[1]);
+      if (!subscription) return;
+      const message = typeof data[2] === 'string' ? data[2] : '';
+      const error = new RelayError(relay.url, message || "error: subscription closed by relay");
+      console.warn(`Relay ${relay.url} closed subscription ${subscription.id}: ${message}`);
+
+      if (error.prefix === 'auth-required' && !subscription.authRetried.has(relay.url)) {
+        this.retrySubscriptionWithAuth(relay, subscription, message);
+        return;
+      }
+      if (error.isRetryable && (subscription.rateLimitRetries.get(relay.url) || 0) < MAX_RATE_LIMIT_RETRIES) {
+        // Keep waiting on this relay's EOSE; the query timeout still caps the wait
+        this.retrySubscriptionAfterRateLimit(relay, subscription);
+        return;
+      }
+      subscription.closedByRelay.add(relay.url);
+      this.closeReqs(relay.url, subscription);
+      this.failSubscriptionRelay(subscription, relay.url, error);
+    } else if (type === "NEG-MSG") {
+      const session = this.negentropySessions.get(data[1] as string);
+      if (!session || session.relayUrl !== relay.url || typeof data[2] !== 'string') return;
+      this.handleNegentropyMessage(relay, session, data[2]);
+    } else if (type === "NEG-ERR") {
+      const session = this.negentropySessions.get(data[1] as string);
+      if (!session || session.relayUrl !== relay.url) return;
+      const message = typeof data[2] === 'string' ? data[2] : '';
+      this.finishNegentropy(session, new RelayError(relay.url, message || "error: negentropy failed"));
+    } else if (type === "AUTH") {
+      if (typeof data[1] === 'string') {
+        console.log(`Received AUTH challenge from ${relay.url}`);
+        relay.setChallenge(data[1]);
+      }
+    } else if (type === "NOTICE") {
+      const message = typeof data[1] === 'string' ? data[1] : '';
+      console.warn(`Relay notice from ${relay.url}: ${message}`);
+      if (isRateLimitNotice(message)) {
+        this.noteRateLimit(relay.url);
+      }
+      // Relays without NIP-77 usually complain about the unknown NEG-OPEN command
+      if (/NEG-|negentropy|unknown|unsupported/i.test(message)) {
+        for (const session of [...this.negentropySessions.values()]) {
+          if (session.relayUrl !== relay.url || session.rounds > 0) continue;
+          this.negentropyUnsupported.add(relay.url);
+          const reason = parseRelayMessage(message).prefix ? message : `error: ${message}`;
+          this.finishNegentropy(session, new RelayError(relay.url, reason));
+        }
+      }
+    }
+  };
+}
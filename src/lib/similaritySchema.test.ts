@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import type { NostrEvent } from './nostr';
+import type { BookIdentifier } from './bookIdentifiers';
+import {
+  LEGACY_SIMILARITY_EVENT_KIND,
+  SIMILARITY_EVENT_KIND,
+  buildSimilarityTags,
+  getSimilarityPairKey,
+  validateSimilarityEvent,
+} from './similaritySchema';
+
+const prideAndPrejudice: BookIdentifier = { type: 'isbn', value: "9780141439518" };
+const senseAndSensibility: BookIdentifier = { type: 'isbn', value: "9780141439662" };
+const odyssey: BookIdentifier = { type: 'wikidata', value: "Q35160" };
+
+function similarityEvent(tags: string[][], kind = SIMILARITY_EVENT_KIND, content = "Both are Austen novels"): NostrEvent {
+  return { kind, pubkey: "a".repeat(64), created_at: 1700000000, tags, content };
+}
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+describe('validateSimilarityEvent', () => {
+  it('accepts events built by buildSimilarityTags', () => {
+    const result = validateSimilarityEvent(similarityEvent(buildSimilarityTags(prideAndPrejudice, odyssey, 0.3)));
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.fields).toEqual({
+      item1: prideAndPrejudice,
+      item2: odyssey,
+      similarity: 0.3,
+      version: 2,
+      pairKey: getSimilarityPairKey(prideAndPrejudice, odyssey),
+    });
+  });
+
+  it('reads legacy version 1 events with a warning', () => {
+    const result = validateSimilarityEvent(similarityEvent([
+      ['i', 'isbn:9780141439518'], ['kind', 'isbn'],
+      ['i', 'isbn:9780141439662'], ['kind', 'isbn'],
+      ['similarity', '0.85'],
+    ], LEGACY_SIMILARITY_EVENT_KIND));
+
+    expect(result.errors).toEqual([]);
+    expect(codes(result.warnings)).toEqual(['missing-version']);
+    expect(result.fields).toMatchObject({ version: 1, similarity: 0.85 });
+  });
+
+  it('rejects other kinds', () => {
+    const result = validateSimilarityEvent(similarityEvent(buildSimilarityTags(prideAndPrejudice, senseAndSensibility, 0.5), 1));
+    expect(codes(result.errors)).toContain('wrong-kind');
+    expect(result.fields).toBeNull();
+  });
+
+  it('requires a d tag naming the pair on addressable events', () => {
+    const tags = buildSimilarityTags(prideAndPrejudice, senseAndSensibility, 0.5);
+
+    expect(codes(validateSimilarityEvent(similarityEvent(tags.slice(1))).errors)).toEqual(['missing-pair-id']);
+    const wrongPair = [['d', 'isbn:9780141439518|isbn:9780451524935'], ...tags.slice(1)];
+    expect(validateSimilarityEvent(similarityEvent(wrongPair)).errors).toEqual([
+      expect.objectContaining({ code: 'pair-id-mismatch', tagIndex: 0 }),
+    ]);
+  });
+
+  it('uses the same pair key for either order', () => {
+    expect(getSimilarityPairKey(senseAndSensibility, prideAndPrejudice))
+      .toBe(getSimilarityPairKey(prideAndPrejudice, senseAndSensibility));
+  });
+
+  it.each([
+    ['1.7', 'similarity-out-of-range'],
+    ['1.05', 'similarity-out-of-range'],
+    ['-0.2', 'invalid-similarity'],
+    ['1e0', 'invalid-similarity'],
+    ['.', 'invalid-similarity'],
+    ['0.5.1', 'invalid-similarity'],
+    ['', 'invalid-similarity'],
+  ])('rejects similarity "%s"', (value, code) => {
+    const tags = buildSimilarityTags(prideAndPrejudice, senseAndSensibility, 0.5)
+      .map(tag => (tag[0] === 'similarity' ? ['similarity', value] : tag));
+    expect(codes(validateSimilarityEvent(similarityEvent(tags)).errors)).toEqual([code]);
+  });
+
+  it.each(['0.', '1.', '.5', '1.00', '0'])('accepts similarity "%s"', (value) => {
+    const tags = buildSimilarityTags(prideAndPrejudice, senseAndSensibility, 0.5)
+      .map(tag => (tag[0] === 'similarity' ? ['similarity', value] : tag));
+    expect(validateSimilarityEvent(similarityEvent(tags)).errors).toEqual([]);
+  });
+
+  it('rejects the same book on both sides, in either ISBN form', () => {
+    const result = validateSimilarityEvent(similarityEvent([
+      ['i', 'isbn:9780141439518'], ['kind', 'isbn'],
+      ['i', 'isbn:0141439513'], ['kind', 'isbn'],
+      ['similarity', '0.5'],
+    ], LEGACY_SIMILARITY_EVENT_KIND));
+
+    expect(codes(result.errors)).toEqual(['same-book']);
+    expect(codes(result.warnings)).toContain('isbn-not-normalized');
+  });
+
+  it('rejects invalid ISBNs and identifiers not followed by their type', () => {
+    const badChecksum = validateSimilarityEvent(similarityEvent([
+      ['i', 'isbn:9780141439518'], ['kind', 'isbn'],
+      ['i', 'isbn:1234567890'], ['kind', 'isbn'],
+      ['similarity', '0.5'],
+    ], LEGACY_SIMILARITY_EVENT_KIND));
+    expect(codes(badChecksum.errors)).toEqual(['invalid-identifier']);
+
+    const missingType = validateSimilarityEvent(similarityEvent([
+      ['i', 'isbn:9780141439518'], ['similarity', '0.5'],
+      ['i', 'isbn:9780141439662'], ['kind', 'isbn'],
+    ], LEGACY_SIMILARITY_EVENT_KIND));
+    expect(codes(missingType.errors)).toContain('item-kind-mismatch');
+  });
+
+  it('rejects schema versions it does not know', () => {
+    const tags = buildSimilarityTags(prideAndPrejudice, senseAndSensibility, 0.5)
+      .map(tag => (tag[0] === 'version' ? ['version', '3'] : tag));
+    expect(codes(validateSimilarityEvent(similarityEvent(tags)).errors)).toEqual(['unsupported-version']);
+  });
+});
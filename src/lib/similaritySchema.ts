@@ -0,0 +1,215 @@
+import type { NostrEvent } from './nostr';
+import {
+  getIdentifierKey,
+  parseIdentifierTag,
+  toIdentifierTags,
+  validateBookIdentifier,
+  type BookIdentifier,
+} from './bookIdentifiers';
+
+/**
+ * Shape of similarity events, shared by the publisher and the parser
+ * The full specification is in docs/similarity-events.md; keep the two in sync.
+ */
+
+// Addressable (NIP-01), so each author has one current similarity per book pair
+export const SIMILARITY_EVENT_KIND = 31729;
+// Regular events published before similarities could be edited; still read, no longer written
+export const LEGACY_SIMILARITY_EVENT_KIND = 1729;
+export const SIMILARITY_EVENT_KINDS = [SIMILARITY_EVENT_KIND, LEGACY_SIMILARITY_EVENT_KIND];
+// Version written to the `version` tag; events without one are read as version 1
+export const SIMILARITY_SCHEMA_VERSION = 2;
+// Longest description accepted, in characters
+export const MAX_SIMILARITY_CONTENT_LENGTH = 5000;
+
+export type SimilarityIssueCode =
+  | 'wrong-kind'
+  | 'missing-pair-id'
+  | 'pair-id-mismatch'
+  | 'item-count'
+  | 'unsupported-identifier'
+  | 'item-kind-mismatch'
+  | 'invalid-identifier'
+  | 'same-book'
+  | 'missing-similarity'
+  | 'duplicate-similarity'
+  | 'invalid-similarity'
+  | 'similarity-out-of-range'
+  | 'content-too-long'
+  | 'empty-content'
+  | 'unsupported-version'
+  | 'missing-version'
+  | 'isbn-not-normalized';
+
+/**
+ * One problem found in an event; `tagIndex` points into `event.tags` where it applies
+ */
+export interface SimilarityIssue {
+  code: SimilarityIssueCode;
+  message: string;
+  tagIndex?: number;
+}
+
+/**
+ * The fields of a similarity event once it has been validated
+ */
+export interface SimilarityFields {
+  item1: BookIdentifier;
+  item2: BookIdentifier;
+  similarity: number;
+  version: number;
+  // See getSimilarityPairKey; the `d` tag of addressable events
+  pairKey: string;
+}
+
+export interface SimilarityValidationResult {
+  // Errors make the event unusable; warnings are reported but the event is still shown
+  errors: SimilarityIssue[];
+  warnings: SimilarityIssue[];
+  // Null whenever there are errors
+  fields: SimilarityFields | null;
+}
+
+/**
+ * The same string for a pair of books in either order, used as the `d` tag
+ * e.g. "isbn:9780141439518|isbn:9780141439662"
+ */
+export function getSimilarityPairKey(item1: BookIdentifier, item2: BookIdentifier): string {
+  return [getIdentifierKey(item1), getIdentifierKey(item2)].sort().join('|');
+}
+
+// A plain decimal such as "0.5", "1", "0." or ".5"; rejects "", "0x1", "1e0", "Infinity" and other things parseFloat accepts
+const DECIMAL_PATTERN = /^(\d+(\.\d*)?|\.\d+)$/;
+
+/**
+ * Check an event against the similarity event schema
+ */
+export function validateSimilarityEvent(event: NostrEvent): SimilarityValidationResult {
+  const errors: SimilarityIssue[] = [];
+  const warnings: SimilarityIssue[] = [];
+
+  if (!SIMILARITY_EVENT_KINDS.includes(event.kind)) {
+    errors.push({ code: 'wrong-kind', message: `Expected kind ${SIMILARITY_EVENT_KINDS.join(' or ')}, got ${event.kind}` });
+  }
+
+  // Version first: a newer schema may mean something else by the tags below
+  let version = 1;
+  const versionIndex = event.tags.findIndex(tag => tag[0] === 'version');
+  if (versionIndex === -1) {
+    warnings.push({ code: 'missing-version', message: "No version tag; read as version 1" });
+  } else {
+    version = Number(event.tags[versionIndex][1]);
+    if (!Number.isInteger(version) || version < 1 || version > SIMILARITY_SCHEMA_VERSION) {
+      errors.push({
+        code: 'unsupported-version',
+        message: `Unsupported version "${event.tags[versionIndex][1]}"`,
+        tagIndex: versionIndex,
+      });
+    }
+  }
+
+  // Each `i` tag must be directly followed by the tag giving its type:
+  // `["kind", "isbn"]` in version 1, a NIP-73 `k` tag since version 2
+  const typeTag = version >= 2 ? 'k' : 'kind';
+  const itemIndexes = event.tags.map((tag, i) => (tag[0] === 'i' ? i : -1)).filter(i => i !== -1);
+  const typeCount = event.tags.filter(tag => tag[0] === typeTag).length;
+  if (itemIndexes.length !== 2) {
+    errors.push({ code: 'item-count', message: `Expected 2 "i" tags, got ${itemIndexes.length}` });
+  } else if (typeCount !== 2) {
+    errors.push({ code: 'item-kind-mismatch', message: `Expected 2 "${typeTag}" tags, got ${typeCount}` });
+  }
+
+  const items: BookIdentifier[] = [];
+  for (const index of itemIndexes) {
+    const value = event.tags[index][1] ?? '';
+    const typeTagValue = event.tags[index + 1]?.[0] === typeTag ? event.tags[index + 1][1] : undefined;
+    if (typeTagValue === undefined) {
+      errors.push({ code: 'item-kind-mismatch', message: `"i" tag ${value} is not followed by a "${typeTag}" tag`, tagIndex: index });
+      continue;
+    }
+
+    const identifier = parseIdentifierTag(value, typeTagValue);
+    if (!identifier || (version < 2 && identifier.type !== 'isbn')) {
+      errors.push({
+        code: 'unsupported-identifier',
+        message: `"i" tag ${value} (${typeTagValue}) is not a supported book identifier`,
+        tagIndex: index,
+      });
+      continue;
+    }
+
+    if (identifier.type === 'isbn' && value !== `isbn:${identifier.value}`) {
+      warnings.push({ code: 'isbn-not-normalized', message: `${value} should be written as isbn:${identifier.value}`, tagIndex: index });
+    }
+    const problem = validateBookIdentifier(identifier);
+    if (problem) {
+      errors.push({ code: 'invalid-identifier', message: problem, tagIndex: index });
+      continue;
+    }
+    items.push(identifier);
+  }
+  if (items.length === 2 && getIdentifierKey(items[0]) === getIdentifierKey(items[1])) {
+    errors.push({ code: 'same-book', message: "Both items are the same book" });
+  }
+
+  // The address must name the pair, or one author could hold two opinions on it
+  const pairKey = items.length === 2 ? getSimilarityPairKey(items[0], items[1]) : '';
+  if (event.kind === SIMILARITY_EVENT_KIND) {
+    const dIndex = event.tags.findIndex(tag => tag[0] === 'd');
+    if (dIndex === -1) {
+      errors.push({ code: 'missing-pair-id', message: "No d tag" });
+    } else if (pairKey && event.tags[dIndex][1] !== pairKey) {
+      errors.push({
+        code: 'pair-id-mismatch',
+        message: `d tag "${event.tags[dIndex][1]}" should be "${pairKey}"`,
+        tagIndex: dIndex,
+      });
+    }
+  }
+
+  let similarity = NaN;
+  const similarityIndexes = event.tags.map((tag, i) => (tag[0] === 'similarity' ? i : -1)).filter(i => i !== -1);
+  if (similarityIndexes.length === 0) {
+    errors.push({ code: 'missing-similarity', message: "No similarity tag" });
+  } else if (similarityIndexes.length > 1) {
+    errors.push({ code: 'duplicate-similarity', message: `${similarityIndexes.length} similarity tags` });
+  } else {
+    const index = similarityIndexes[0];
+    const value = (event.tags[index][1] ?? '').trim();
+    similarity = Number(value);
+    if (!DECIMAL_PATTERN.test(value)) {
+      errors.push({ code: 'invalid-similarity', message: `Similarity "${value}" is not a number`, tagIndex: index });
+    } else if (similarity > 1) {
+      errors.push({ code: 'similarity-out-of-range', message: `Similarity ${value} is outside 0 to 1`, tagIndex: index });
+    }
+  }
+
+  if (event.content.length > MAX_SIMILARITY_CONTENT_LENGTH) {
+    errors.push({
+      code: 'content-too-long',
+      message: `Description is ${event.content.length} characters; the limit is ${MAX_SIMILARITY_CONTENT_LENGTH}`,
+    });
+  } else if (!event.content.trim()) {
+    warnings.push({ code: 'empty-content', message: "No description" });
+  }
+
+  return {
+    errors,
+    warnings,
+    fields: errors.length === 0 ? { item1: items[0], item2: items[1], similarity, version, pairKey } : null,
+  };
+}
+
+/**
+ * Tags of an addressable similarity event in the current schema version
+ */
+export function buildSimilarityTags(item1: BookIdentifier, item2: BookIdentifier, similarity: number): string[][] {
+  return [
+    ['d', getSimilarityPairKey(item1, item2)],
+    ...toIdentifierTags(item1),
+    ...toIdentifierTags(item2),
+    // Two decimals is all the slider offers; avoids 0.30000000000000004 on the wire
+    ['similarity', String(Math.round(similarity * 100) / 100)],
+    ['version', String(SIMILARITY_SCHEMA_VERSION)],
+  ];
+}
@@ -1,5 +1,5 @@
 import { useQuery, useQueryClient, QueryClient } from '@tanstack/react-query';
-import { NostrEvent, RELAY_URL, generateShortId } from '@/lib/nostr';
+import { NostrEvent, NostrClient, nostrClient } from '@/lib/nostr';
 import { useCallback } from 'react';
 
 // Constants for Nostr kinds
@@ -32,17 +32,28 @@ export interface UserProfile {
 // Constants
 const PROFILE_CACHE_TIME = 1000 * 60 * 60 * 24; // 24 hours
 const PROFILE_CACHE = new Map<string, { profile: UserProfile, timestamp: number }>();
-const BATCH_SIZE = 10; // Number of profiles to fetch in a single batch query
+const MAX_AUTHORS_PER_FILTER = 50; // Authors per REQ filter; larger lookups are split into chunks
+const PROFILE_BATCH_DELAY = 50; // Wait this long for more lookups before sending a REQ
+const PROFILE_FETCH_TIMEOUT = 10000;
+
+interface ProfileBatch {
+  lookups: Map<string, ((profile: UserProfile) => void)[]>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Lookups waiting for the next batch and lookups already sent to the relays, per client
+const pendingProfileBatches = new Map<NostrClient, ProfileBatch>();
+const inFlightProfiles = new WeakMap<NostrClient, Map<string, Promise<UserProfile>>>();
 
 /**
  * Prefetch a user profile (for direct use outside of hooks)
  */
-export function prefetchUserProfile(queryClient: QueryClient, pubkey: string): void {
+export function prefetchUserProfile(queryClient: QueryClient, pubkey: string, client: NostrClient = nostrClient): void {
   if (!pubkey) return;
   
   queryClient.prefetchQuery({
     queryKey: ['userProfile', pubkey],
-    queryFn: () => fetchUserProfile(pubkey),
+    queryFn: () => fetchUserProfile(pubkey, client),
     staleTime: PROFILE_CACHE_TIME
   });
 }
@@ -60,388 +71,191 @@ function parseProfileContent(content: string): NostrUserMetadata {
 }
 
 /**
-* Fetches a single user profile
-*/
-export async function fetchUserProfile(pubkey: string): Promise<UserProfile> {
-  console.log(`Fetching profile for ${pubkey.slice(0, 6)}... from ${RELAY_URL}`);
+ * Build a profile from a kind 0 event
+ */
+function profileFromEvent(event: NostrEvent): UserProfile {
+  const metadata = parseProfileContent(event.content);
+  return {
+    pubkey: event.pubkey,
+    metadata,
+    loaded: true,
+    createdAt: event.created_at,
+    raw: event.content
+  };
+}
+
+/**
+ * Kind 0 is replaceable: keep only the newest event per author
+ * Ties go to the lowest id, as NIP-01 specifies
+ */
+function pickNewestProfileEvents(events: NostrEvent[]): Map<string, NostrEvent> {
+  const newest = new Map<string, NostrEvent>();
   
-  // Check memory cache first
-  const cacheKey = `${pubkey}`;
-  const now = Date.now();
-  const cached = PROFILE_CACHE.get(cacheKey);
-  if (cached && (now - cached.timestamp < PROFILE_CACHE_TIME)) {
-    console.log(`Using cached profile for ${pubkey.slice(0, 6)}...`);
+  for (const event of events) {
+    if (event.kind !== NOSTR_KINDS.SET_METADATA) continue;
+    
+    const current = newest.get(event.pubkey);
+    const isNewer = !current
+      || (event.created_at || 0) > (current.created_at || 0)
+      || ((event.created_at || 0) === (current.created_at || 0) && (event.id || '') < (current.id || ''));
+    
+    if (isNewer) {
+      newest.set(event.pubkey, event);
+    }
+  }
+  
+  return newest;
+}
+
+/**
+ * Get a profile from the memory cache if it is still fresh
+ */
+function getCachedProfile(pubkey: string): UserProfile | null {
+  const cached = PROFILE_CACHE.get(pubkey);
+  if (cached && (Date.now() - cached.timestamp < PROFILE_CACHE_TIME)) {
     return cached.profile;
   }
+  return null;
+}
+
+/**
+ * Cache a profile unless we already hold a newer version of it
+ */
+function cacheProfile(profile: UserProfile): UserProfile {
+  const cached = PROFILE_CACHE.get(profile.pubkey)?.profile;
+  if (cached?.createdAt && (profile.createdAt || 0) < cached.createdAt) {
+    return cached;
+  }
+  
+  PROFILE_CACHE.set(profile.pubkey, { profile, timestamp: Date.now() });
+  return profile;
+}
+
+/**
+ * Fetch kind 0 events for a set of authors, one REQ per chunk of authors
+ */
+async function fetchProfileChunk(client: NostrClient, pubkeys: string[]): Promise<Map<string, UserProfile>> {
+  const result = new Map<string, UserProfile>();
   
   try {
-    // Create WebSocket connection
-    const socket = new WebSocket(RELAY_URL);
+    const events = await client.query(
+      { kinds: [NOSTR_KINDS.SET_METADATA], authors: pubkeys },
+      { timeout: PROFILE_FETCH_TIMEOUT }
+    );
     
-    // Promise that will resolve once we get profile data
-    const profilePromise = new Promise<UserProfile>((resolve, reject) => {
-      // Set timeout to ensure we don't hang indefinitely
-      const timeoutId = setTimeout(() => {
-        console.log(`Timeout fetching profile for ${pubkey.slice(0, 6)}...`);
-        socket.close();
-        
-        // Return a minimal profile on timeout
-        const emptyProfile = {
-          pubkey,
-          metadata: {},
-          loaded: false
-        };
-        
-        PROFILE_CACHE.set(cacheKey, { profile: emptyProfile, timestamp: now });
-        resolve(emptyProfile);
-      }, 10000);
-      
-      // Setup event handlers
-      socket.onopen = () => {
-        console.log(`WebSocket opened to ${RELAY_URL}`);
-        
-        // Create a short subscription ID for this request
-        const subscriptionId = generateShortId("p");
-        
-        // This is the correct filter format for Nostr kind 0 events (profiles)
-        const filter = {
-          kinds: [NOSTR_KINDS.SET_METADATA],
-          authors: [pubkey]
-        };
-        
-        const requestMessage = JSON.stringify(["REQ", subscriptionId, filter]);
-        console.log(`Sending subscription request with ID ${subscriptionId}`);
-        socket.send(requestMessage);
-      };
-      
-      socket.onmessage = (message) => {
-        try {
-          const data = JSON.parse(message.data);
-          
-          // Check for error notices from relays
-          if (Array.isArray(data) && data[0] === "NOTICE") {
-            console.warn(`Relay notice: ${data[1]}`);
-          }
-          
-          // Check if this is an EVENT message
-          if (Array.isArray(data) && data[0] === "EVENT") {
-            console.log(`Received EVENT message`);
-            const event = data[2] as NostrEvent;
-            
-            // Verify this is from the correct user and is a profile event
-            if (event.pubkey === pubkey && event.kind === NOSTR_KINDS.SET_METADATA) {
-              console.log(`Valid profile event received`);
-              clearTimeout(timeoutId);
-              
-              // Parse profile content
-              const metadata = parseProfileContent(event.content);
-              console.log(`Parsed profile: name=${metadata.name}, has picture: ${!!metadata.picture}`);
-              
-              // Create profile object
-              const profile: UserProfile = {
-                pubkey,
-                metadata,
-                loaded: true,
-                createdAt: event.created_at,
-                raw: event.content
-              };
-              
-              // Save to cache
-              PROFILE_CACHE.set(cacheKey, { profile, timestamp: now });
-              
-              // Close socket and resolve
-              socket.close();
-              console.log(`Successfully fetched and cached profile`);
-              resolve(profile);
-            }
-          }
-          
-          // If we receive EOSE (End of Stored Events)
-          if (Array.isArray(data) && data[0] === "EOSE") {
-            console.log(`Received EOSE - no profile events found for ${pubkey.slice(0, 6)}...`);
-            clearTimeout(timeoutId);
-            socket.close();
-            
-            // If we get here without finding a profile, we didn't find any profile
-            const emptyProfile = {
-              pubkey,
-              metadata: {},
-              loaded: true // Mark as loaded since we know there's no profile
-            };
-            
-            PROFILE_CACHE.set(cacheKey, { profile: emptyProfile, timestamp: now });
-            resolve(emptyProfile);
-          }
-        } catch (error) {
-          console.error(`Error processing profile message:`, error);
-        }
-      };
-      
-      socket.onerror = (error) => {
-        console.error(`WebSocket error fetching profile:`, error);
-        clearTimeout(timeoutId);
-        socket.close();
-        
-        // Return empty profile on error
-        const emptyProfile = {
-          pubkey,
-          metadata: {},
-          loaded: false
-        };
-        
-        PROFILE_CACHE.set(cacheKey, { profile: emptyProfile, timestamp: now });
-        resolve(emptyProfile);
-      };
-      
-      socket.onclose = () => {
-        console.log(`WebSocket connection closed`);
-        clearTimeout(timeoutId);
-      };
-    });
+    const newest = pickNewestProfileEvents(events);
+    console.log(`Found ${newest.size} profiles for ${pubkeys.length} pubkeys`);
     
-    return await profilePromise;
+    pubkeys.forEach(pubkey => {
+      const event = newest.get(pubkey);
+      // Without an event we know the user has no profile
+      const profile: UserProfile = event
+        ? profileFromEvent(event)
+        : { pubkey, metadata: {}, loaded: true };
+      result.set(pubkey, cacheProfile(profile));
+    });
   } catch (error) {
-    console.error(`Error in fetchUserProfile:`, error);
-    
-    // Return empty profile on any error
-    const emptyProfile = {
-      pubkey,
-      metadata: {},
-      loaded: false
-    };
+    console.error("Error in profile fetch:", error);
     
-    PROFILE_CACHE.set(cacheKey, { profile: emptyProfile, timestamp: now });
-    return emptyProfile;
+    // Not cached, so the next lookup tries the relays again
+    pubkeys.forEach(pubkey => {
+      result.set(pubkey, { pubkey, metadata: {}, loaded: false });
+    });
   }
+  
+  return result;
 }
 
 /**
- * Batch fetch multiple user profiles at once
- * This is more efficient when loading many profiles
+ * Send every lookup queued since the last batch as chunked `authors` filters
  */
-export async function batchFetchUserProfiles(pubkeys: string[]): Promise<Map<string, UserProfile>> {
-  if (!pubkeys.length) return new Map();
+async function flushProfileLookups(client: NostrClient): Promise<void> {
+  const { lookups } = pendingProfileBatches.get(client);
+  pendingProfileBatches.delete(client);
   
-  console.log(`Batch fetching ${pubkeys.length} profiles`);
+  const pubkeys = [...lookups.keys()];
+  console.log(`Fetching ${pubkeys.length} profiles from relays`);
   
-  // Remove duplicates
-  const uniquePubkeys = [...new Set(pubkeys)];
-  console.log(`Removed duplicates. Fetching ${uniquePubkeys.length} unique profiles`);
+  const chunks: string[][] = [];
+  for (let i = 0; i < pubkeys.length; i += MAX_AUTHORS_PER_FILTER) {
+    chunks.push(pubkeys.slice(i, i + MAX_AUTHORS_PER_FILTER));
+  }
   
-  const result = new Map<string, UserProfile>();
-  const pubkeysToFetch: string[] = [];
+  await Promise.all(chunks.map(async chunk => {
+    const profiles = await fetchProfileChunk(client, chunk);
+    chunk.forEach(pubkey => {
+      lookups.get(pubkey)?.forEach(resolve => resolve(profiles.get(pubkey)));
+    });
+  }));
+}
+
+/**
+ * Queue a profile lookup; lookups made close together share one request
+ */
+function loadProfile(pubkey: string, client: NostrClient): Promise<UserProfile> {
+  if (!inFlightProfiles.has(client)) {
+    inFlightProfiles.set(client, new Map());
+  }
+  const inFlight = inFlightProfiles.get(client);
+  if (inFlight.has(pubkey)) return inFlight.get(pubkey);
   
-  // Check cache first
-  const now = Date.now();
-  uniquePubkeys.forEach(pubkey => {
-    const cached = PROFILE_CACHE.get(pubkey);
-    if (cached && (now - cached.timestamp < PROFILE_CACHE_TIME)) {
-      console.log(`Using cached profile for ${pubkey.slice(0, 6)}...`);
-      result.set(pubkey, cached.profile);
-    } else {
-      pubkeysToFetch.push(pubkey);
-    }
+  let batch = pendingProfileBatches.get(client);
+  if (!batch) {
+    batch = { lookups: new Map(), timer: setTimeout(() => flushProfileLookups(client), PROFILE_BATCH_DELAY) };
+    pendingProfileBatches.set(client, batch);
+  }
+  const { lookups } = batch;
+  
+  const promise = new Promise<UserProfile>(resolve => {
+    const waiters = lookups.get(pubkey) || [];
+    waiters.push(resolve);
+    lookups.set(pubkey, waiters);
+  }).finally(() => {
+    inFlight.delete(pubkey);
   });
+  inFlight.set(pubkey, promise);
   
-  // If all profiles were in cache, return immediately
-  if (pubkeysToFetch.length === 0) {
-    console.log(`All profiles found in cache`);
-    return result;
+  return promise;
+}
+
+/**
+* Fetches a single user profile
+*/
+export async function fetchUserProfile(pubkey: string, client: NostrClient = nostrClient): Promise<UserProfile> {
+  // Check memory cache first
+  const cached = getCachedProfile(pubkey);
+  if (cached) {
+    console.log(`Using cached profile for ${pubkey.slice(0, 6)}...`);
+    return cached;
   }
   
-  console.log(`Fetching ${pubkeysToFetch.length} profiles from relay`);
+  const profile = await loadProfile(pubkey, client);
+  console.log(`Fetched profile for ${pubkey.slice(0, 6)}...: name=${profile.metadata.name}`);
+  return profile;
+}
+
+/**
+ * Batch fetch multiple user profiles at once
+ * Lookups are queued with any others made at the same time and sent together
+ */
+export async function batchFetchUserProfiles(pubkeys: string[], client: NostrClient = nostrClient): Promise<Map<string, UserProfile>> {
+  if (!pubkeys.length) return new Map();
   
-  // Process in batches to avoid too many authors in a single query
-  for (let i = 0; i < pubkeysToFetch.length; i += BATCH_SIZE) {
-    const batchPubkeys = pubkeysToFetch.slice(i, i + BATCH_SIZE);
-    console.log(`Processing batch ${i / BATCH_SIZE + 1}: ${batchPubkeys.length} profiles`);
-    
-    try {
-      // Create WebSocket connection
-      const socket = new WebSocket(RELAY_URL);
-      
-      // Promise for this batch
-      const batchPromise = new Promise<void>((resolve) => {
-        // Track which profiles we've received
-        const receivedProfiles = new Set<string>();
-        
-        // Timeout for the whole batch
-        const timeoutId = setTimeout(() => {
-          console.log(`Batch timeout for ${batchPubkeys.length} profiles`);
-          
-          // Create empty profiles for all pubkeys we didn't receive
-          batchPubkeys.forEach(pubkey => {
-            if (!receivedProfiles.has(pubkey)) {
-              console.log(`No profile received for ${pubkey.slice(0, 6)}... before timeout`);
-              const emptyProfile = {
-                pubkey,
-                metadata: {},
-                loaded: false
-              };
-              
-              result.set(pubkey, emptyProfile);
-              PROFILE_CACHE.set(pubkey, { profile: emptyProfile, timestamp: now });
-            }
-          });
-          
-          socket.close();
-          resolve();
-        }, 10000);
-        
-        // Setup event handlers
-        socket.onopen = () => {
-          console.log(`WebSocket opened for batch of ${batchPubkeys.length} profiles`);
-          
-          // Create a short subscription for this batch
-          const subscriptionId = generateShortId("b");
-          
-          // This is the correct filter format for Nostr kind 0 events (profiles)
-          const filter = {
-            kinds: [NOSTR_KINDS.SET_METADATA],
-            authors: batchPubkeys
-          };
-          
-          const requestMessage = JSON.stringify(["REQ", subscriptionId, filter]);
-          console.log(`Sending batch subscription request with id ${subscriptionId}`);
-          socket.send(requestMessage);
-        };
-        
-        socket.onmessage = (message) => {
-          try {
-            const data = JSON.parse(message.data);
-            
-            // Check for error notices from relays
-            if (Array.isArray(data) && data[0] === "NOTICE") {
-              console.warn(`Relay notice: ${data[1]}`);
-            }
-            
-            // Check if this is an EVENT message
-            if (Array.isArray(data) && data[0] === "EVENT") {
-              console.log(`Received EVENT message in batch`);
-              const event = data[2] as NostrEvent;
-              
-              // Check if this event is a profile and from one of our requested pubkeys
-              if (event.kind === NOSTR_KINDS.SET_METADATA && batchPubkeys.includes(event.pubkey)) {
-                console.log(`Valid profile event for ${event.pubkey.slice(0, 6)}...`);
-                
-                // Parse profile content
-                const metadata = parseProfileContent(event.content);
-                console.log(`Parsed profile for ${event.pubkey.slice(0, 6)}: name=${metadata.name}, has picture: ${!!metadata.picture}`);
-                
-                // Create profile object
-                const profile: UserProfile = {
-                  pubkey: event.pubkey,
-                  metadata,
-                  loaded: true,
-                  createdAt: event.created_at,
-                  raw: event.content
-                };
-                
-                // Save to result and cache
-                result.set(event.pubkey, profile);
-                PROFILE_CACHE.set(event.pubkey, { profile, timestamp: now });
-                
-                // Mark as received
-                receivedProfiles.add(event.pubkey);
-                
-                // If we've received all profiles, resolve early
-                if (receivedProfiles.size === batchPubkeys.length) {
-                  console.log(`All ${batchPubkeys.length} profiles received, resolving early`);
-                  clearTimeout(timeoutId);
-                  socket.close();
-                  resolve();
-                }
-              }
-            }
-            
-            // If we receive EOSE (End of Stored Events)
-            if (Array.isArray(data) && data[0] === "EOSE") {
-              console.log(`Received EOSE - found ${receivedProfiles.size} of ${batchPubkeys.length} profiles`);
-              
-              // Create empty profiles for any pubkeys we didn't receive
-              batchPubkeys.forEach(pubkey => {
-                if (!receivedProfiles.has(pubkey)) {
-                  console.log(`Creating empty profile for ${pubkey.slice(0, 6)}... (not found)`);
-                  const emptyProfile = {
-                    pubkey,
-                    metadata: {},
-                    loaded: true // Mark as loaded since we know there's no profile
-                  };
-                  
-                  result.set(pubkey, emptyProfile);
-                  PROFILE_CACHE.set(pubkey, { profile: emptyProfile, timestamp: now });
-                }
-              });
-              
-              clearTimeout(timeoutId);
-              socket.close();
-              resolve();
-            }
-          } catch (error) {
-            console.error("Error processing batch profile message:", error);
-          }
-        };
-        
-        socket.onerror = () => {
-          console.error(`WebSocket error in batch profile fetch`);
-          clearTimeout(timeoutId);
-          
-          // Create empty profiles for any pubkeys we didn't receive
-          batchPubkeys.forEach(pubkey => {
-            if (!receivedProfiles.has(pubkey)) {
-              const emptyProfile = {
-                pubkey,
-                metadata: {},
-                loaded: false
-              };
-              
-              result.set(pubkey, emptyProfile);
-              PROFILE_CACHE.set(pubkey, { profile: emptyProfile, timestamp: now });
-            }
-          });
-          
-          socket.close();
-          resolve();
-        };
-        
-        socket.onclose = () => {
-          console.log(`WebSocket connection closed for batch`);
-          clearTimeout(timeoutId);
-          resolve();
-        };
-      });
-      
-      await batchPromise;
-    } catch (error) {
-      console.error("Error in batch profile fetch:", error);
-      
-      // Handle error by creating empty profiles
-      batchPubkeys.forEach(pubkey => {
-        if (!result.has(pubkey)) {
-          console.log(`Creating error fallback profile for ${pubkey.slice(0, 6)}...`);
-          const emptyProfile = {
-            pubkey,
-            metadata: {},
-            loaded: false
-          };
-          
-          result.set(pubkey, emptyProfile);
-          PROFILE_CACHE.set(pubkey, { profile: emptyProfile, timestamp: now });
-        }
-      });
-    }
-  }
+  // Remove duplicates
+  const uniquePubkeys = [...new Set(pubkeys)];
+  console.log(`Batch fetching ${uniquePubkeys.length} unique profiles`);
   
-  return result;
+  const profiles = await Promise.all(uniquePubkeys.map(pubkey => fetchUserProfile(pubkey, client)));
+  return new Map(profiles.map(profile => [profile.pubkey, profile]));
 }
 
 /**
  * React Query hook for fetching and caching user profiles
  */
-export function useUserProfile(pubkey: string | null) {
+export function useUserProfile(pubkey: string | null, client: NostrClient = nostrClient) {
   return useQuery({
     queryKey: ['userProfile', pubkey],
-    queryFn: () => pubkey ? fetchUserProfile(pubkey) : Promise.resolve({ pubkey: '', metadata: {}, loaded: false }),
+    queryFn: () => pubkey ? fetchUserProfile(pubkey, client) : Promise.resolve({ pubkey: '', metadata: {}, loaded: false }),
     enabled: !!pubkey,
     staleTime: PROFILE_CACHE_TIME,
     cacheTime: PROFILE_CACHE_TIME,
@@ -459,7 +273,7 @@ export function formatPubkey(pubkey: string): string {
 /**
  * Hook to prefetch multiple user profiles with a stable reference
  */
-export function usePrefetchUserProfiles() {
+export function usePrefetchUserProfiles(client: NostrClient = nostrClient) {
   const queryClient = useQueryClient();
   
   // Use useCallback to ensure the function reference is stable
@@ -470,25 +284,9 @@ export function usePrefetchUserProfiles() {
     const uniquePubkeys = [...new Set(pubkeys.filter(pk => !!pk))];
     console.log(`Prefetching ${uniquePubkeys.length} profiles`);
     
-    if (uniquePubkeys.length <= 3) {
-      // For small numbers of pubkeys, fetch individually
-      uniquePubkeys.forEach(pubkey => {
-        console.log(`Individual prefetch for ${pubkey.slice(0, 6)}...`);
-        prefetchUserProfile(queryClient, pubkey);
-      });
-    } else {
-      // For larger batches, use the more efficient batch fetch
-      console.log(`Batch prefetching ${uniquePubkeys.length} profiles`);
-      try {
-        const profilesMap = await batchFetchUserProfiles(uniquePubkeys);
-        
-        // Update React Query cache for each profile
-        profilesMap.forEach((profile, pubkey) => {
-          queryClient.setQueryData(['userProfile', pubkey], profile);
-        });
-      } catch (error) {
-        console.error("Error prefetching profiles:", error);
-      }
-    }
-  }, [queryClient]);
+    // Each prefetch queues a lookup; lookups made together go out as one request
+    uniquePubkeys.forEach(pubkey => {
+      prefetchUserProfile(queryClient, pubkey, client);
+    });
+  }, [queryClient, client]);
 }
\ No newline at end of file
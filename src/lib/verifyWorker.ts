@@ -0,0 +1,19 @@
+import { verifyEvent, type Event } from 'nostr-tools';
+
+/**
+ * Web Worker that checks event ids and signatures off the UI thread
+ * Receives `{ batchId, events }` and answers `{ batchId, results }` with one boolean per event
+ */
+self.onmessage = (message: MessageEvent<{ batchId: number; events: Event[] }>) => {
+  const { batchId, events } = message.data;
+
+  const results = events.map(event => {
+    try {
+      return verifyEvent(event);
+    } catch {
+      return false;
+    }
+  });
+
+  self.postMessage({ batchId, results });
+};
@@ -1,5 +1,13 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { nostrClient } from './lib/nostr'
+import { installMockRelay } from './lib/mockRelay'
+import { createFixtureEvents } from './lib/mockRelayFixtures'
+
+// Run against the in-memory relay instead of public relays (dev only)
+if (import.meta.env.DEV && import.meta.env.VITE_MOCK_RELAY === 'true') {
+  installMockRelay(nostrClient, createFixtureEvents());
+}
 
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { BookSearch } from "@/components/BookSearch";
 import { BookCard } from "@/components/BookCard";
@@ -7,20 +7,71 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Slider } from "@/components/ui/slider";
 import { toast } from "@/components/ui/use-toast";
-import { Book, createSimilarityEvent } from "@/lib/nostr";
+import { Book, PublishResult, SimilarityEvent, createSimilarityEvent, getAcceptedRelays, getOutboxItemStatus, getOwnSimilarity } from "@/lib/nostr";
+import { useNostrClient } from "@/contexts/NostrContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
-import { AlertTriangle } from "lucide-react";
+import { AlertTriangle, Pencil } from "lucide-react";
+import { PublishResultList } from "@/components/PublishResultList";
+
+// Books to start with, e.g. from the Edit button on a similarity card
+interface CreateLocationState {
+  book1?: Book;
+  book2?: Book;
+}
 
 const Create = () => {
   const { isAuthenticated, canSign } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const client = useNostrClient();
+  const initialBooks = (location.state as CreateLocationState | null) ?? {};
   
-  const [book1, setBook1] = useState<Book | null>(null);
-  const [book2, setBook2] = useState<Book | null>(null);
+  const [book1, setBook1] = useState<Book | null>(initialBooks.book1 ?? null);
+  const [book2, setBook2] = useState<Book | null>(initialBooks.book2 ?? null);
   const [similarity, setSimilarity] = useState<number>(0.5);
   const [content, setContent] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [publishResult, setPublishResult] = useState<PublishResult | null>(null);
+  // No relay took the event yet, but the outbox keeps retrying
+  const [isQueued, setIsQueued] = useState<boolean>(false);
+  // The user's earlier similarity for the selected pair; saving replaces it
+  const [existing, setExisting] = useState<SimilarityEvent | null>(null);
+  const [isCheckingExisting, setIsCheckingExisting] = useState<boolean>(false);
+  // Whether the form holds an earlier similarity's values rather than the user's own input
+  const filledFromExistingRef = useRef(false);
+
+  // Turn the form into an edit form when the user already rated this pair
+  useEffect(() => {
+    setExisting(null);
+    // Don't carry the previous pair's similarity over to a pair without one
+    if (filledFromExistingRef.current) {
+      filledFromExistingRef.current = false;
+      setSimilarity(0.5);
+      setContent("");
+    }
+    if (!book1 || !book2 || !canSign) return;
+    
+    let cancelled = false;
+    setIsCheckingExisting(true);
+    getOwnSimilarity(book1, book2, client)
+      .then(similarity => {
+        if (cancelled || !similarity) return;
+        console.log("Editing existing similarity:", similarity.id);
+        filledFromExistingRef.current = true;
+        setExisting(similarity);
+        setSimilarity(similarity.similarity);
+        setContent(similarity.content);
+      })
+      .catch(error => console.error("Failed to look up an earlier similarity:", error))
+      .finally(() => {
+        if (!cancelled) setIsCheckingExisting(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [book1, book2, canSign, client]);
 
   // Redirect if not authenticated
   if (!isAuthenticated) {
@@ -75,14 +126,33 @@ const Create = () => {
 
     try {
       setIsSubmitting(true);
+      setPublishResult(null);
+      
+      const result = await createSimilarityEvent(book1, book2, similarity, content, client);
+      const accepted = getAcceptedRelays(result).length;
+      const outboxItem = client.outbox.getItem(result.eventId);
+      const queued = !!outboxItem && getOutboxItemStatus(outboxItem) === 'pending';
+      setIsQueued(accepted === 0 && queued);
       
-      await createSimilarityEvent(book1, book2, similarity, content);
+      // Keep the form so the user can retry if no relay took the event and it isn't queued either
+      if (accepted === 0 && !queued) {
+        setPublishResult(result);
+        return;
+      }
       
       // Reset form
       setBook1(null);
       setBook2(null);
       setSimilarity(0.5);
       setContent("");
+      filledFromExistingRef.current = false;
+      setExisting(null);
+      
+      // Show which relays failed before moving on
+      if (accepted < result.relays.length || queued) {
+        setPublishResult(result);
+        return;
+      }
       
       // Navigate to explore
       navigate("/explore");
@@ -102,7 +172,7 @@ const Create = () => {
     <Layout>
       <div className="max-w-3xl mx-auto">
         <h1 className="text-3xl font-bold mb-6 text-similarteia-dark">
-          Create Book Similarity
+          {existing ? "Edit Book Similarity" : "Create Book Similarity"}
         </h1>
         
         {readOnlyAlert}
@@ -111,6 +181,17 @@ const Create = () => {
           Connect two books by their similarity and explain the relationship between them.
         </p>
         
+        {existing && (
+          <Alert className="mb-6">
+            <Pencil className="h-4 w-4" />
+            <AlertTitle>You already rated these books</AlertTitle>
+            <AlertDescription>
+              Your similarity from {new Date(existing.createdAt * 1000).toLocaleDateString()} is loaded below.
+              Saving replaces it, so you keep one opinion per pair of books.
+            </AlertDescription>
+          </Alert>
+        )}
+        
         <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
           <h2 className="text-xl font-semibold mb-4 text-similarteia-dark">Select First Book</h2>
           
@@ -187,14 +268,39 @@ const Create = () => {
           />
         </div>
         
+        {publishResult && (
+          <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+            <h2 className="text-xl font-semibold mb-2 text-similarteia-dark">Publish Results</h2>
+            <p className="text-sm text-similarteia-muted mb-4">
+              {getAcceptedRelays(publishResult).length > 0
+                ? "Your similarity event was published, but some relays did not accept it."
+                : isQueued
+                  ? "No relay could be reached. Your similarity event is saved in the outbox and will be sent when they are back."
+                  : "No relay accepted your similarity event. Your description has been kept so you can try again."}
+            </p>
+            
+            <PublishResultList result={publishResult} />
+            
+            {getAcceptedRelays(publishResult).length > 0 && (
+              <div className="flex justify-end mt-4">
+                <Button variant="outline" onClick={() => navigate("/explore")}>
+                  View in Explore
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+        
         <div className="flex justify-end">
           <Button
             onClick={handleSubmit}
-            disabled={!book1 || !book2 || !content.trim() || isSubmitting || !canSign}
+            disabled={!book1 || !book2 || !content.trim() || isSubmitting || isCheckingExisting || !canSign}
             className="bg-similarteia-accent hover:bg-similarteia-accent/90 text-white"
             size="lg"
           >
-            {isSubmitting ? "Creating..." : "Create Similarity Event"}
+            {isSubmitting
+              ? existing ? "Saving..." : "Creating..."
+              : existing ? "Save Changes" : "Create Similarity Event"}
           </Button>
         </div>
       </div>
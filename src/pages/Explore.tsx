@@ -1,109 +1,209 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { Layout } from "@/components/Layout";
-import { SimilarityEventCard } from "@/components/SimilarityEventCard";
-import { NostrEvent, SimilarityEvent, parseEventToSimilarity, SIMILARITY_EVENT_KIND, RELAY_URL, subscribeToEvents } from "@/lib/nostr";
+import { SimilarityEventList } from "@/components/SimilarityEventList";
+import { NostrEvent, SimilarityEvent, MalformedEvent, keepLatestSimilarities, parseSimilarityEvents, SIMILARITY_EVENT_KINDS } from "@/lib/nostr";
+import { useNostrClient } from "@/contexts/NostrContext";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
-import { RefreshCw } from "lucide-react";
+import { AlertTriangle, ArrowUp, RefreshCw } from "lucide-react";
 import { usePrefetchUserProfiles } from "@/lib/userProfiles";
+import { getCachedFeed, syncFeed, loadOlderFeedPage } from "@/lib/eventSync";
+import { getDeletionTargets, saveEvents } from "@/lib/eventStore";
+import { useAgreementScores } from "@/lib/reactions";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+// Number of similarity events requested per page
+const PAGE_SIZE = 20;
+
+// "agreed" ranks loaded similarities by reactions: agreements minus disagreements
+type SortOrder = 'newest' | 'agreed';
+
+// Add newly found malformed events, once each
+const mergeMalformed = (prev: MalformedEvent[], incoming: MalformedEvent[]): MalformedEvent[] => {
+  const known = new Set(prev.map(entry => entry.event.id));
+  const added = incoming.filter(entry => !known.has(entry.event.id));
+  return added.length > 0 ? [...prev, ...added] : prev;
+};
+
+// Drop events a NIP-09 deletion removed (only the author's own deletions count)
+// An address removes every version of an addressable similarity up to the deletion
+const removeDeleted = (list: SimilarityEvent[], deletion: NostrEvent): SimilarityEvent[] => {
+  const { ids, addresses } = getDeletionTargets(deletion);
+  const isDeleted = (event: SimilarityEvent) => event.pubkey === deletion.pubkey && (
+    ids.includes(event.id) ||
+    (!!event.address && addresses.includes(event.address) && event.createdAt <= (deletion.created_at || 0))
+  );
+  const remaining = list.filter(event => !isDeleted(event));
+  return remaining.length !== list.length ? remaining : list;
+};
+
+// Append events we don't have yet
+const mergeEvents = (prev: SimilarityEvent[], incoming: SimilarityEvent[]): SimilarityEvent[] => {
+  const known = new Set(prev.map(event => event.id));
+  const added = incoming.filter(event => !known.has(event.id));
+  return added.length > 0 ? [...prev, ...added] : prev;
+};
 
 const Explore = () => {
   const [events, setEvents] = useState<SimilarityEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRetrying, setIsRetrying] = useState(false);
-  const [unsubscribeFn, setUnsubscribeFn] = useState<(() => void) | null>(null);
-  const hasReceivedEvents = useRef(false);
-  const loadingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const prefetchProfiles = usePrefetchUserProfiles();
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Live events received after the initial load, shown only when the reader asks
+  const [pendingEvents, setPendingEvents] = useState<SimilarityEvent[]>([]);
+  // Events that break the similarity schema; hidden from the feed but counted
+  const [malformedEvents, setMalformedEvents] = useState<MalformedEvent[]>([]);
+  const [showMalformed, setShowMalformed] = useState(false);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  // `until` cursor for the next older page
+  const cursorRef = useRef<number | null>(null);
+  const loadingMoreRef = useRef(false);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  // Incremented on every fetch so results from a superseded fetch are dropped
+  const fetchIdRef = useRef(0);
+  const client = useNostrClient();
+  const prefetchProfiles = usePrefetchUserProfiles(client);
 
-  // Only run this effect when events array changes length
-  const eventCount = events.length;
   useEffect(() => {
-    if (eventCount > 0) {
+    if (events.length > 0) {
       const authorPubkeys = events.map(event => event.pubkey);
       prefetchProfiles(authorPubkeys);
     }
-  }, [eventCount, prefetchProfiles]);
+  }, [events, prefetchProfiles]);
 
-  const fetchEvents = useCallback(async () => {
-    // Clean up previous subscription if it exists
-    if (unsubscribeFn) {
-      unsubscribeFn();
-      setUnsubscribeFn(null);
+  // Parse feed events, setting aside the malformed ones
+  const parseFeedEvents = useCallback((feedEvents: NostrEvent[]): SimilarityEvent[] => {
+    const { events: parsed, malformed } = parseSimilarityEvents(feedEvents);
+    if (malformed.length > 0) {
+      setMalformedEvents(prev => mergeMalformed(prev, malformed));
     }
-    
-    // Clean up previous timeout if exists
-    if (loadingTimeoutRef.current) {
-      clearTimeout(loadingTimeoutRef.current);
-      loadingTimeoutRef.current = null;
+    return parsed;
+  }, []);
+
+  const closeSubscription = useCallback(() => {
+    if (unsubscribeRef.current) {
+      console.log("Unsubscribing from events");
+      unsubscribeRef.current();
+      unsubscribeRef.current = null;
     }
+  }, []);
+
+  // Drop the results of any fetch still in flight
+  const cancelFetches = useCallback(() => {
+    fetchIdRef.current++;
+    loadingMoreRef.current = false;
+  }, []);
+
+  const fetchEvents = useCallback(async () => {
+    // Clean up previous subscription if it exists
+    closeSubscription();
+    const fetchId = ++fetchIdRef.current;
     
     setIsLoading(true);
     setIsRetrying(true);
-    hasReceivedEvents.current = false;
+    cursorRef.current = null;
+    setHasMore(false);
+    setPendingEvents([]);
+    setMalformedEvents([]);
     
     try {
-      console.log(`Connecting to relay: ${RELAY_URL}`);
+      // Show what we stored on earlier visits while relays are asked for anything newer
+      const cachedEvents = parseFeedEvents(await getCachedFeed(SIMILARITY_EVENT_KINDS, PAGE_SIZE));
+      if (fetchId !== fetchIdRef.current) return;
+      if (cachedEvents.length > 0) {
+        console.log(`Showing ${cachedEvents.length} stored events`);
+        setEvents(cachedEvents);
+        setIsLoading(false);
+      }
+      
+      const readRelays = client.getReadRelays();
+      console.log(`Connecting to relays: ${readRelays.join(', ')}`);
       toast({
-        title: "Connecting to Relay",
-        description: `Attempting to connect to ${RELAY_URL}`,
+        title: "Connecting to Relays",
+        description: `Attempting to connect to ${readRelays.length} relays`,
       });
       
-      const unsubscribe = await subscribeToEvents(
-        { kinds: [SIMILARITY_EVENT_KIND] },
+      // Fetch only what is newer than the last visit, then read the newest page from the local store
+      const page = await syncFeed(client, SIMILARITY_EVENT_KINDS, PAGE_SIZE);
+      if (fetchId !== fetchIdRef.current) return;
+      
+      const storedEvents = page.events;
+      const similarityEvents = parseFeedEvents(storedEvents);
+      
+      console.log(`Found ${similarityEvents.length} events`);
+      setEvents(similarityEvents);
+      cursorRef.current = page.until;
+      setHasMore(page.until !== null);
+      
+      if (similarityEvents.length === 0) {
+        toast({
+          title: "Relay Status",
+          description: "Connected, but no similarity events found",
+        });
+      }
+      
+      // Keep listening for events published from now on
+      const since = storedEvents.length > 0
+        ? storedEvents[0].created_at
+        : Math.floor(Date.now() / 1000);
+      
+      // Until EOSE the relays replay what they stored since `since`, which belongs in the feed
+      let eosed = false;
+      const unsubscribe = client.subscribe(
+        [
+          { kinds: SIMILARITY_EVENT_KINDS, since },
+          { kinds: [5], '#k': SIMILARITY_EVENT_KINDS.map(String), since },
+        ],
         (event: NostrEvent) => {
           console.log("Received event:", event);
-          const similarityEvent = parseEventToSimilarity(event);
-          if (similarityEvent) {
-            console.log("Parsed similarity event:", similarityEvent);
-            hasReceivedEvents.current = true;
-            
-            // Since we're going to use similarityEvent,
-            // prefetch the profile immediately
-            if (similarityEvent.pubkey) {
-              prefetchProfiles([similarityEvent.pubkey]);
-            }
-            
-            setEvents(prev => {
-              // Check if we already have this event
-              if (prev.some(e => e.id === similarityEvent.id)) {
-                return prev;
-              }
-              return [...prev, similarityEvent];
-            });
-            
-            // Stop loading immediately after receiving the first event
-            setIsLoading(false);
-            setIsRetrying(false);
-          } else {
-            console.warn("Failed to parse event as similarity event:", event);
+          saveEvents([event]);
+          
+          if (event.kind === 5) {
+            setEvents(prev => removeDeleted(prev, event));
+            setPendingEvents(prev => removeDeleted(prev, event));
+            return;
           }
-        }
-      );
-      
-      setUnsubscribeFn(() => unsubscribe);
-      
-      // Set a timeout to stop the loading state even if no events are received
-      loadingTimeoutRef.current = setTimeout(() => {
-        setIsLoading(false);
-        setIsRetrying(false);
-        
-        if (!hasReceivedEvents.current) {
-          console.log("No events received after timeout");
-          toast({
-            title: "Relay Status",
-            description: "Connected, but no similarity events found",
+          
+          const [similarityEvent] = parseFeedEvents([event]);
+          if (!similarityEvent) return;
+          
+          if (!eosed) {
+            setEvents(prev => mergeEvents(prev, [similarityEvent]));
+            return;
+          }
+          
+          prefetchProfiles([similarityEvent.pubkey]);
+          
+          // Buffer instead of inserting so the feed doesn't jump under the reader
+          setPendingEvents(prev => {
+            if (prev.some(e => e.id === similarityEvent.id)) {
+              return prev;
+            }
+            return [...prev, similarityEvent];
           });
-        } else {
-          // Use a callback to get the latest events length
-          setEvents(currentEvents => {
-            console.log(`Found ${currentEvents.length} events`);
-            return currentEvents;
+        },
+        (error) => {
+          // Connection errors are retried by the pool; only report relays that refused the feed
+          if (error.prefix === 'error') return;
+          toast({
+            title: "Live updates stopped on a relay",
+            description: `${error.relayUrl.replace(/^wss?:\/\//, '')}: ${error.reason || error.prefix}`,
+            variant: "destructive",
           });
+        },
+        () => {
+          eosed = true;
         }
-      }, 5000);
+      );
       
+      // The page may have refreshed or unmounted while we were subscribing
+      if (fetchId !== fetchIdRef.current) {
+        unsubscribe();
+        return;
+      }
+      unsubscribeRef.current = unsubscribe;
     } catch (error) {
       console.error("Failed to fetch events:", error);
       toast({
@@ -111,34 +211,95 @@ const Explore = () => {
         description: `Failed to connect to relay: ${error instanceof Error ? error.message : "Unknown error"}`,
         variant: "destructive",
       });
-      setIsLoading(false);
-      setIsRetrying(false);
+    } finally {
+      if (fetchId === fetchIdRef.current) {
+        setIsLoading(false);
+        setIsRetrying(false);
+      }
+    }
+  }, [client, closeSubscription, parseFeedEvents, prefetchProfiles]);
+
+  const loadOlderEvents = useCallback(async () => {
+    const until = cursorRef.current;
+    if (loadingMoreRef.current || until === null) return;
+    
+    const fetchId = fetchIdRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    
+    try {
+      console.log(`Loading similarity events until ${until}`);
+      const page = await loadOlderFeedPage(client, SIMILARITY_EVENT_KINDS, PAGE_SIZE, until);
+      if (fetchId !== fetchIdRef.current) return;
+      
+      const olderEvents = parseFeedEvents(page.events);
+      setEvents(prev => mergeEvents(prev, olderEvents));
+      
+      // A full page stuck on one timestamp would return the same events forever
+      cursorRef.current = page.until === until ? until - 1 : page.until;
+      setHasMore(cursorRef.current !== null);
+    } catch (error) {
+      console.error("Failed to load older events:", error);
+      toast({
+        title: "Failed to load older similarities",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      if (fetchId === fetchIdRef.current) {
+        loadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
     }
-  }, [prefetchProfiles]); 
+  }, [client, parseFeedEvents]);
   
-  // Initial fetch - runs once due to empty dependency array
+  // Initial fetch
   useEffect(() => {
     fetchEvents();
     
     // Cleanup function
     return () => {
-      if (unsubscribeFn) {
-        console.log("Unsubscribing from events");
-        unsubscribeFn();
-      }
-      
-      // Clean up timeout on unmount
-      if (loadingTimeoutRef.current) {
-        clearTimeout(loadingTimeoutRef.current);
-      }
+      cancelFetches();
+      closeSubscription();
     };
-  }, [fetchEvents]);
+  }, [fetchEvents, cancelFetches, closeSubscription]);
+
+  // Only the latest version of edited similarities
+  const latestEvents = useMemo(() => keepLatestSimilarities(events), [events]);
+  // Reactions for every loaded similarity, fetched in batches, only when ranking by them
+  const scores = useAgreementScores(latestEvents, sortOrder === 'agreed', client);
+
+  // Sort events by creation time, or by agreement once the reactions are in
+  const sortedEvents = [...latestEvents].sort((a, b) => {
+    if (sortOrder === 'agreed' && scores) {
+      const difference = (scores[b.id] ?? 0) - (scores[a.id] ?? 0);
+      if (difference !== 0) return difference;
+    }
+    return b.createdAt - a.createdAt;
+  });
+
+  // Pending events that aren't already in the feed (e.g. re-sent at the `since` boundary)
+  const newEvents = useMemo(() => {
+    const known = new Set(events.map(event => event.id));
+    return pendingEvents.filter(event => !known.has(event.id));
+  }, [events, pendingEvents]);
 
-  // Sort events by creation time
-  const sortedEvents = [...events].sort((a, b) => b.createdAt - a.createdAt);
+  // The reader deleted one of their similarities; relays echo the deletion later, if at all
+  const handleDeleted = useCallback((deletion: NostrEvent) => {
+    setEvents(prev => removeDeleted(prev, deletion));
+    setPendingEvents(prev => removeDeleted(prev, deletion));
+  }, []);
+
+  const showNewEvents = () => {
+    setEvents(prev => mergeEvents(prev, newEvents));
+    setPendingEvents([]);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
   const handleRetry = () => {
     setEvents([]);
+    loadingMoreRef.current = false;
+    setIsLoadingMore(false);
     fetchEvents();
   };
 
@@ -161,32 +322,87 @@ const Explore = () => {
           </Button>
         </div>
         
-        <p className="text-lg text-similarteia-muted mb-8">
+        <p className="text-lg text-similarteia-muted mb-4">
           Discover connections between books created by users in the SimilarTeia community.
         </p>
         
-        <div className="space-y-6">
-          {isLoading ? (
-            // Loading skeletons
-            Array.from({ length: 3 }).map((_, i) => (
-              <Skeleton key={i} className="w-full h-64" />
-            ))
-          ) : sortedEvents.length === 0 ? (
-            <div className="bg-white p-8 rounded-lg text-center">
-              <h2 className="text-xl font-medium mb-2 text-similarteia-dark">No similarities found</h2>
-              <p className="text-similarteia-muted mb-4">
-                Be the first to create a book similarity connection or try refreshing!
-              </p>
-              <Button onClick={handleRetry} className="mt-2">
-                Try Again
-              </Button>
-            </div>
-          ) : (
-            sortedEvents.map((event) => (
-              <SimilarityEventCard key={event.id} event={event} />
-            ))
+        <div className="flex items-center gap-2 mb-8 text-sm text-similarteia-muted">
+          <span>Sort by</span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={sortOrder}
+            onValueChange={(value) => value && setSortOrder(value as SortOrder)}
+          >
+            <ToggleGroupItem value="newest">Newest</ToggleGroupItem>
+            <ToggleGroupItem value="agreed">Most agreed</ToggleGroupItem>
+          </ToggleGroup>
+          {sortOrder === 'agreed' && !scores && latestEvents.length > 0 && (
+            <span>Loading reactions...</span>
           )}
         </div>
+        
+        {malformedEvents.length > 0 && (
+          <div className="mb-6 text-sm text-similarteia-muted">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              <span>
+                {malformedEvents.length} malformed {malformedEvents.length === 1 ? 'event' : 'events'} hidden
+              </span>
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setShowMalformed(show => !show)}>
+                {showMalformed ? 'Hide details' : 'Details'}
+              </Button>
+            </div>
+            {showMalformed && (
+              <ul className="mt-2 space-y-1 pl-6">
+                {malformedEvents.map(({ event, errors }) => (
+                  <li key={event.id}>
+                    <span className="font-mono">{event.id?.slice(0, 8)}</span>: {errors.map(error => error.message).join('; ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        
+        {newEvents.length > 0 && (
+          <div className="sticky top-20 z-10 flex justify-center mb-6">
+            <Button
+              onClick={showNewEvents}
+              className="rounded-full shadow-md bg-similarteia-accent hover:bg-similarteia-accent/90 text-white flex items-center gap-2"
+            >
+              <ArrowUp className="h-4 w-4" />
+              {newEvents.length} new {newEvents.length === 1 ? 'similarity' : 'similarities'} — show
+            </Button>
+          </div>
+        )}
+        
+        {isLoading ? (
+          <div className="space-y-6">
+            {/* Loading skeletons */}
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="w-full h-64" />
+            ))}
+          </div>
+        ) : sortedEvents.length === 0 ? (
+          <div className="bg-white p-8 rounded-lg text-center">
+            <h2 className="text-xl font-medium mb-2 text-similarteia-dark">No similarities found</h2>
+            <p className="text-similarteia-muted mb-4">
+              Be the first to create a book similarity connection or try refreshing!
+            </p>
+            <Button onClick={handleRetry} className="mt-2">
+              Try Again
+            </Button>
+          </div>
+        ) : (
+          <SimilarityEventList
+            events={sortedEvents}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadOlderEvents}
+            onDeleted={handleDeleted}
+          />
+        )}
       </div>
     </Layout>
   );
@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pause, Play, Trash2 } from "lucide-react";
+import { useNostrClient } from "@/contexts/NostrContext";
+import { getVerificationStats } from "@/lib/eventVerifier";
+import type { RelayStatus } from "@/lib/relayPool";
+import type { FrameLogEntry, RelayDiagnosticsStats } from "@/lib/relayDiagnostics";
+
+const statusStyles: Record<RelayStatus, string> = {
+  connected: "bg-green-100 text-green-700 border-green-200",
+  connecting: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  disconnected: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+const frameStyles: Record<string, string> = {
+  REQ: "text-blue-700",
+  EVENT: "text-gray-700",
+  EOSE: "text-green-700",
+  OK: "text-green-700",
+  CLOSED: "text-red-600",
+  NOTICE: "text-orange-600",
+};
+
+// Frames shown in the log at once; the newest are kept
+const MAX_VISIBLE_FRAMES = 300;
+
+const formatMs = (ms: number | null) => (ms === null ? "—" : `${Math.round(ms)} ms`);
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+const shortUrl = (url: string) => url.replace(/^wss?:\/\//, '');
+
+interface RelayRow {
+  status: RelayStatus;
+  read: boolean;
+  write: boolean;
+  stats: RelayDiagnosticsStats;
+  invalidEvents: number;
+}
+
+const Relays = () => {
+  const { pool } = useNostrClient();
+  const [rows, setRows] = useState<RelayRow[]>([]);
+  const [frames, setFrames] = useState<FrameLogEntry[]>([]);
+  const [subscriptionFilter, setSubscriptionFilter] = useState("");
+  const [isPaused, setIsPaused] = useState(false);
+
+  // Poll the pool's diagnostics; frames arrive far too often to re-render on each one
+  useEffect(() => {
+    const refresh = () => {
+      const rejectedByRelay = getVerificationStats().rejectedByRelay;
+      setRows(pool.getRelayConfigs().map(config => ({
+        status: pool.getStatus(config.url),
+        read: config.read,
+        write: config.write,
+        stats: pool.diagnostics.getRelayStats(config.url),
+        invalidEvents: rejectedByRelay[config.url] || 0,
+      })));
+      if (!isPaused) {
+        setFrames(pool.diagnostics.getFrames(subscriptionFilter).slice(-MAX_VISIBLE_FRAMES).reverse());
+      }
+    };
+
+    refresh();
+    const intervalId = setInterval(refresh, 1000);
+    return () => clearInterval(intervalId);
+  }, [pool, subscriptionFilter, isPaused]);
+
+  const clearLog = () => {
+    pool.diagnostics.clearFrames();
+    setFrames([]);
+  };
+
+  const messages = rows
+    .flatMap(row => row.stats.messages.map(message => ({ ...message, url: row.stats.url })))
+    .sort((a, b) => b.time - a.time);
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold mb-2 text-similarteia-dark">Relay Diagnostics</h1>
+        <p className="text-lg text-similarteia-muted mb-8">
+          Live view of every relay connection and the messages exchanged with it.
+          Manage which relays are used in <Link to="/settings" className="text-similarteia-accent hover:underline">Settings</Link>.
+        </p>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+          <h2 className="text-xl font-semibold mb-4 text-similarteia-dark">Relays</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Relay</TableHead>
+                <TableHead>State</TableHead>
+                <TableHead className="text-right">Connect</TableHead>
+                <TableHead className="text-right">Time to EOSE</TableHead>
+                <TableHead className="text-right">Events</TableHead>
+                <TableHead className="text-right">Invalid</TableHead>
+                <TableHead className="text-right">Published</TableHead>
+                <TableHead className="text-right">Rejected</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ status, read, write, stats, invalidEvents }) => (
+                <TableRow key={stats.url}>
+                  <TableCell>
+                    <div className="font-mono text-sm">{shortUrl(stats.url)}</div>
+                    <div className="text-xs text-similarteia-muted">
+                      {[read && "read", write && "write"].filter(Boolean).join(" · ")}
+                      {stats.connectionCount > 1 && ` · ${stats.connectionCount} connections`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={statusStyles[status]}>{status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatMs(stats.connectLatency)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatMs(stats.lastEoseTime)}
+                    {stats.eoseCount > 1 && (
+                      <div className="text-xs text-similarteia-muted">avg {formatMs(stats.averageEoseTime)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{stats.eventsReceived}</TableCell>
+                  <TableCell className={`text-right ${invalidEvents > 0 ? 'text-red-600' : ''}`}>{invalidEvents}</TableCell>
+                  <TableCell className="text-right">{stats.publishesAccepted}</TableCell>
+                  <TableCell className={`text-right ${stats.publishesRejected > 0 ? 'text-red-600' : ''}`}>
+                    {stats.publishesRejected}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+          <h2 className="text-xl font-semibold mb-4 text-similarteia-dark">Notices and closed subscriptions</h2>
+          {messages.length === 0 ? (
+            <p className="text-similarteia-muted">No relay has sent a NOTICE or CLOSED message.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {messages.map((message, i) => (
+                <li key={i} className="py-2 flex flex-wrap gap-2">
+                  <span className="text-similarteia-muted">{formatTime(message.time)}</span>
+                  <span className={frameStyles[message.type]}>{message.type}</span>
+                  <span className="font-mono">{shortUrl(message.url)}</span>
+                  {message.subscriptionId && (
+                    <button
+                      className="font-mono text-similarteia-accent hover:underline"
+                      onClick={() => setSubscriptionFilter(message.subscriptionId)}
+                    >
+                      {message.subscriptionId}
+                    </button>
+                  )}
+                  <span className="break-all">{message.message || "(no message)"}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+            <h2 className="text-xl font-semibold text-similarteia-dark">Frame log</h2>
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                placeholder="Filter by subscription id"
+                value={subscriptionFilter}
+                onChange={(e) => setSubscriptionFilter(e.target.value)}
+                className="w-56 font-mono"
+              />
+              <Button variant="outline" onClick={() => setIsPaused(paused => !paused)}>
+                {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                {isPaused ? "Resume" : "Pause"}
+              </Button>
+              <Button variant="outline" onClick={clearLog} aria-label="Clear frame log">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {frames.length === 0 ? (
+            <p className="text-similarteia-muted">
+              {subscriptionFilter ? `No frames for subscription ${subscriptionFilter}.` : "No frames recorded yet."}
+            </p>
+          ) : (
+            <div className="max-h-[32rem] overflow-auto rounded border bg-gray-50 font-mono text-xs">
+              {frames.map(frame => (
+                <div key={frame.seq} className="flex gap-2 px-2 py-1 border-b border-gray-100">
+                  <span className="text-similarteia-muted shrink-0">{formatTime(frame.time)}</span>
+                  <span className="shrink-0 w-4">{frame.direction === 'out' ? '→' : '←'}</span>
+                  <span className="shrink-0 w-40 truncate">{shortUrl(frame.relayUrl)}</span>
+                  <span className={`shrink-0 w-16 ${frameStyles[frame.type] || ''}`}>{frame.type}</span>
+                  <span className="break-all">{frame.text}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Relays;
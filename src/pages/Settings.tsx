@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { toast } from "@/components/ui/use-toast";
+import { AlertTriangle, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { normalizeRelayUrl, type RelayConfig, type RelayStatus } from "@/lib/relayPool";
+import { useNostrClient } from "@/contexts/NostrContext";
+import { isValidRelayUrl, saveRelayList } from "@/lib/relayList";
+import { describePublishResult, getAcceptedRelays } from "@/lib/nostr";
+import { RelayInfoSummary } from "@/components/RelayInfoSummary";
+
+const statusStyles: Record<RelayStatus, string> = {
+  connected: "bg-green-100 text-green-700 border-green-200",
+  connecting: "bg-yellow-100 text-yellow-700 border-yellow-200",
+  disconnected: "bg-gray-100 text-gray-600 border-gray-200",
+};
+
+const Settings = () => {
+  const { isAuthenticated, canSign } = useAuth();
+  const client = useNostrClient();
+  const { pool } = client;
+
+  const [relays, setRelays] = useState<RelayConfig[]>(() => pool.getRelayConfigs());
+  const [statuses, setStatuses] = useState<Record<string, RelayStatus>>({});
+  const [newRelayUrl, setNewRelayUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Pick up relay lists loaded after login while the form is untouched
+  useEffect(() => {
+    if (isDirty) return;
+    
+    setRelays(pool.getRelayConfigs());
+    return pool.onRelaysChanged(() => setRelays(pool.getRelayConfigs()));
+  }, [isDirty, pool]);
+
+  // Refresh connection status for each relay
+  useEffect(() => {
+    const updateStatuses = () => {
+      const next: Record<string, RelayStatus> = {};
+      relays.forEach(relay => {
+        next[relay.url] = pool.getStatus(relay.url);
+      });
+      setStatuses(next);
+    };
+
+    updateStatuses();
+    const intervalId = setInterval(updateStatuses, 2000);
+
+    return () => clearInterval(intervalId);
+  }, [relays, pool]);
+
+  const updateRelay = (url: string, changes: Partial<RelayConfig>) => {
+    setRelays(prev => prev.map(relay => relay.url === url ? { ...relay, ...changes } : relay));
+    setIsDirty(true);
+  };
+
+  const removeRelay = (url: string) => {
+    setRelays(prev => prev.filter(relay => relay.url !== url));
+    setIsDirty(true);
+  };
+
+  const handleAddRelay = () => {
+    if (!isValidRelayUrl(newRelayUrl)) {
+      toast({
+        title: "Invalid Relay URL",
+        description: "Relay URLs must start with wss:// or ws://",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const url = normalizeRelayUrl(newRelayUrl);
+    if (relays.some(relay => relay.url === url)) {
+      toast({
+        title: "Relay Already Added",
+        description: `${url} is already in your relay list.`,
+      });
+      return;
+    }
+
+    setRelays(prev => [...prev, { url, read: true, write: true }]);
+    setNewRelayUrl("");
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const result = await saveRelayList(relays, client);
+      setIsDirty(false);
+
+      if (getAcceptedRelays(result).length === 0) {
+        toast({
+          title: "Relay List Not Published",
+          description: `Your relays are active on this device, but no relay accepted the list. ${describePublishResult(result)}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Relays Saved",
+        description: `Your relay list has been published and will follow you to other Nostr clients. ${describePublishResult(result)}`,
+      });
+    } catch (error) {
+      console.error("Failed to save relay list:", error);
+      toast({
+        title: "Failed to Save Relays",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto">
+        <h1 className="text-3xl font-bold mb-6 text-similarteia-dark">
+          Relay Settings
+        </h1>
+
+        {!isAuthenticated ? (
+          <Alert className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Using Default Relays</AlertTitle>
+            <AlertDescription>
+              Login to load and manage your own relay list.
+            </AlertDescription>
+          </Alert>
+        ) : !canSign && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Read-Only Mode</AlertTitle>
+            <AlertDescription>
+              You are logged in with a public key (read-only mode). You can view your relays
+              but cannot publish changes. Please login with an extension or private key to edit them.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-lg text-similarteia-muted mb-8">
+          Choose which relays SimilarTeia reads from and publishes to. Your list is stored
+          as a relay list event (NIP-65) so other Nostr clients use the same relays.
+          See how each relay is doing on the <Link to="/relays" className="text-similarteia-accent hover:underline">relay diagnostics</Link> page.
+        </p>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm mb-8">
+          <h2 className="text-xl font-semibold mb-4 text-similarteia-dark">Your Relays</h2>
+
+          {relays.length === 0 ? (
+            <p className="text-similarteia-muted">No relays configured. Add at least one relay below.</p>
+          ) : (
+            <div className="divide-y">
+              {relays.map(relay => (
+                <div key={relay.url} className="flex flex-col md:flex-row md:items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-sm truncate">{relay.url}</span>
+                      <Badge variant="outline" className={statusStyles[statuses[relay.url] || 'disconnected']}>
+                        {statuses[relay.url] || 'disconnected'}
+                      </Badge>
+                    </div>
+                    <RelayInfoSummary url={relay.url} />
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`read-${relay.url}`}
+                        checked={relay.read}
+                        disabled={!canSign}
+                        onCheckedChange={(checked) => updateRelay(relay.url, { read: checked })}
+                      />
+                      <Label htmlFor={`read-${relay.url}`}>Read</Label>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`write-${relay.url}`}
+                        checked={relay.write}
+                        disabled={!canSign}
+                        onCheckedChange={(checked) => updateRelay(relay.url, { write: checked })}
+                      />
+                      <Label htmlFor={`write-${relay.url}`}>Write</Label>
+                    </div>
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={!canSign}
+                      onClick={() => removeRelay(relay.url)}
+                      aria-label={`Remove ${relay.url}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canSign && (
+            <div className="flex gap-2 mt-6">
+              <Input
+                type="text"
+                placeholder="wss://relay.example.com"
+                value={newRelayUrl}
+                onChange={(e) => setNewRelayUrl(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddRelay()}
+              />
+              <Button variant="outline" onClick={handleAddRelay} disabled={!newRelayUrl.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={!canSign || !isDirty || isSaving || relays.length === 0}
+            className="bg-similarteia-accent hover:bg-similarteia-accent/90 text-white"
+            size="lg"
+          >
+            {isSaving ? "Saving..." : "Save Relay List"}
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,27 @@
+import 'fake-indexeddb/auto';
+
+/**
+ * Test environment: Node with an in-memory IndexedDB and localStorage, so the
+ * event store, outbox and relay caches run as they do in the browser
+ */
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+globalThis.localStorage = new MemoryStorage() as unknown as Storage;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Set to "true" to use the in-memory mock relay in dev mode
+  readonly VITE_MOCK_RELAY?: string;
+}